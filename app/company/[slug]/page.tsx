@@ -0,0 +1,135 @@
+import SiteFooter from '../../../components/SiteFooter';
+import SiteHeader from '../../../components/SiteHeader';
+import { pickGradient } from '../../../lib/colors';
+import { getMrrShare, getNeighbours, getPercentile } from '../../../lib/companies';
+import { formatGrowth, formatMRR, formatShare } from '../../../lib/format';
+import { addRefToLink } from '../../../lib/links';
+import { companyOgImage, ogMetadata } from '../../../lib/og';
+import { companyHref } from '../../../lib/routes';
+import { findCompany, getCompanyHistory, listCompanySlugs } from '../../../lib/snapshots';
+
+interface CompanyPageProps {
+  params: { slug: string };
+}
+
+const NEIGHBOUR_RADIUS = 3; // companies listed above and below in the ranking
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listCompanySlugs().map((slug) => ({ slug }));
+}
+
+export function generateMetadata({ params }: CompanyPageProps) {
+  const found = findCompany(params.slug);
+  if (!found) return { title: 'GridMRR' };
+  const { company, snapshot } = found;
+  return ogMetadata(
+    `${company.name} — GridMRR`,
+    `${company.name} makes ${formatMRR(company.mrr)} / mo, #${company.rank} of ${snapshot.companies.length} on GridMRR.`,
+    companyOgImage(company.slug),
+  );
+}
+
+export default function CompanyPage({ params }: CompanyPageProps) {
+  const found = findCompany(params.slug);
+  if (!found) return null;
+
+  const { company, snapshot, isLatest } = found;
+  const list = snapshot.companies;
+  const history = getCompanyHistory(company.slug);
+  const neighbours = getNeighbours(company, NEIGHBOUR_RADIUS, list);
+  const growthClass = company.mom_growth >= 0 ? 'company-growth-up' : 'company-growth-down';
+
+  return (
+    <>
+      <SiteHeader subtitle={isLatest ? 'Company' : `Company — not in the latest snapshot, last seen ${snapshot.date}`} />
+
+      <main className="app-shell">
+        <section className="app-main company-page">
+          <div className="company-hero" style={{ background: pickGradient(company.rank - 1) }}>
+            {company.logo && (
+              <div className="company-logo">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={company.logo} alt={company.name} />
+              </div>
+            )}
+            <div>
+              <h1 className="company-name">{company.name}</h1>
+              <div className="company-rank">
+                #{company.rank} of {list.length}
+              </div>
+            </div>
+            <a className="company-outbound" href={addRefToLink(company.link)} target="_blank" rel="noopener noreferrer">
+              View on TrustMRR →
+            </a>
+          </div>
+
+          <dl className="company-stats">
+            <div>
+              <dt>MRR</dt>
+              <dd>{formatMRR(company.mrr)}</dd>
+            </div>
+            <div>
+              <dt>MoM growth</dt>
+              <dd className={growthClass}>{formatGrowth(company.mom_growth)}</dd>
+            </div>
+            <div>
+              <dt>Rank</dt>
+              <dd>#{company.rank}</dd>
+            </div>
+            <div>
+              <dt>Percentile</dt>
+              <dd>{getPercentile(company, list).toFixed(1)}</dd>
+            </div>
+            <div>
+              <dt>Share of total MRR</dt>
+              <dd>{formatShare(getMrrShare(company, list))}</dd>
+            </div>
+          </dl>
+
+          <h2 className="company-section-title">Neighbours in the ranking</h2>
+          <ol className="company-neighbours">
+            {neighbours.map((n) => (
+              <li key={n.slug} className={n.slug === company.slug ? 'company-neighbour-current' : ''}>
+                <span className="company-neighbour-rank">#{n.rank}</span>
+                <a href={companyHref(n.slug)}>{n.name}</a>
+                <span className="company-neighbour-mrr">{formatMRR(n.mrr)}</span>
+              </li>
+            ))}
+          </ol>
+
+          {history.length > 0 && (
+            <>
+              <h2 className="company-section-title">History</h2>
+              <table className="company-history">
+                <thead>
+                  <tr>
+                    <th>Snapshot</th>
+                    <th>MRR</th>
+                    <th>MoM growth</th>
+                    <th>Rank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((point) => (
+                    <tr key={point.date}>
+                      <td>{point.date}</td>
+                      <td>{formatMRR(point.mrr)}</td>
+                      <td>{formatGrowth(point.mom_growth)}</td>
+                      <td>
+                        #{point.rank} of {point.of}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </section>
+      </main>
+
+      <SiteFooter />
+    </>
+  );
+}
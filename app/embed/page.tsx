@@ -0,0 +1,14 @@
+import EmbedView from '../../components/EmbedView';
+import { MAX_EMBED_TOP } from '../../lib/embed';
+import { getLatestSnapshot } from '../../lib/snapshots';
+
+export const metadata = {
+  title: 'GridMRR embed',
+  // The embed duplicates the treemap page; keep it out of search results
+  robots: { index: false },
+};
+
+export default function EmbedPage() {
+  // The embed never draws more than MAX_EMBED_TOP, so the rest stays out of the page's payload
+  return <EmbedView companies={getLatestSnapshot().companies.slice(0, MAX_EMBED_TOP)} />;
+}
@@ -1,7 +1,10 @@
 import './globals.css';
 import Script from 'next/script';
+import { siteUrl } from '../lib/og';
 
 export const metadata = {
+  // OG image paths are relative; previews need them absolute
+  metadataBase: siteUrl(),
   title: 'GridMRR',
   description: 'Treemap-style visualization of SaaS MRR dominance',
 };
@@ -0,0 +1,24 @@
+import TreemapView from '../../../components/TreemapView';
+import { viewMetadata } from '../../../lib/og';
+import { getPreviousSnapshot, getSnapshot, getSnapshotNav, listSnapshotDates } from '../../../lib/snapshots';
+
+interface SnapshotPageProps {
+  params: { date: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listSnapshotDates().map((date) => ({ date }));
+}
+
+export function generateMetadata({ params }: SnapshotPageProps) {
+  return viewMetadata('treemap', params.date);
+}
+
+export default function SnapshotTreemapPage({ params }: SnapshotPageProps) {
+  const { date, companies } = getSnapshot(params.date);
+  return (
+    <TreemapView companies={companies} snapshot={getSnapshotNav(date)} previous={getPreviousSnapshot(date)} />
+  );
+}
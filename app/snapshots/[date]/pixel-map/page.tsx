@@ -0,0 +1,22 @@
+import PixelMapView from '../../../../components/PixelMapView';
+import { viewMetadata } from '../../../../lib/og';
+import { getSnapshot, getSnapshotNav, listSnapshotDates } from '../../../../lib/snapshots';
+
+interface SnapshotPageProps {
+  params: { date: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listSnapshotDates().map((date) => ({ date }));
+}
+
+export function generateMetadata({ params }: SnapshotPageProps) {
+  return viewMetadata('pixel-map', params.date);
+}
+
+export default function SnapshotPixelMapPage({ params }: SnapshotPageProps) {
+  const { date, companies } = getSnapshot(params.date);
+  return <PixelMapView companies={companies} snapshot={getSnapshotNav(date)} />;
+}
@@ -0,0 +1,22 @@
+import StackedRowsView from '../../../../components/StackedRowsView';
+import { viewMetadata } from '../../../../lib/og';
+import { getSnapshot, getSnapshotNav, listSnapshotDates } from '../../../../lib/snapshots';
+
+interface SnapshotPageProps {
+  params: { date: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listSnapshotDates().map((date) => ({ date }));
+}
+
+export function generateMetadata({ params }: SnapshotPageProps) {
+  return viewMetadata('stacked-rows', params.date);
+}
+
+export default function SnapshotStackedRowsPage({ params }: SnapshotPageProps) {
+  const { date, companies } = getSnapshot(params.date);
+  return <StackedRowsView companies={companies} snapshot={getSnapshotNav(date)} />;
+}
@@ -0,0 +1,22 @@
+import VerticalView from '../../../../components/VerticalView';
+import { viewMetadata } from '../../../../lib/og';
+import { getSnapshot, getSnapshotNav, listSnapshotDates } from '../../../../lib/snapshots';
+
+interface SnapshotPageProps {
+  params: { date: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return listSnapshotDates().map((date) => ({ date }));
+}
+
+export function generateMetadata({ params }: SnapshotPageProps) {
+  return viewMetadata('vertical', params.date);
+}
+
+export default function SnapshotVerticalPage({ params }: SnapshotPageProps) {
+  const { date, companies } = getSnapshot(params.date);
+  return <VerticalView companies={companies} snapshot={getSnapshotNav(date)} />;
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { GROWTH_COLOR_RANGE, growthColor, type ColorMode } from '../lib/colors';
+import { formatGrowth } from '../lib/format';
+import { useQueryParam } from '../lib/query';
+
+const LEGEND_STOPS = 9;
+
+/** Colour mode from the `?color=` query parameter; the palette is the default. */
+export function useColorMode(): [ColorMode, (mode: ColorMode) => void] {
+  const [value, setValue] = useQueryParam('color');
+  const mode: ColorMode = value === 'growth' ? 'growth' : 'palette';
+  return [mode, (next) => setValue(next === 'palette' ? null : next)];
+}
+
+function GrowthLegend() {
+  const stops = Array.from({ length: LEGEND_STOPS }, (_, i) => {
+    const growth = -GROWTH_COLOR_RANGE + (2 * GROWTH_COLOR_RANGE * i) / (LEGEND_STOPS - 1);
+    return `${growthColor(growth)} ${(i / (LEGEND_STOPS - 1)) * 100}%`;
+  });
+
+  return (
+    <div className="growth-legend" aria-label="MoM growth colour scale">
+      <div className="growth-legend-bar" style={{ background: `linear-gradient(90deg, ${stops.join(', ')})` }} />
+      <div className="growth-legend-labels">
+        <span>≤ {formatGrowth(-GROWTH_COLOR_RANGE)}</span>
+        <span>0%</span>
+        <span>≥ {formatGrowth(GROWTH_COLOR_RANGE)} MoM</span>
+      </div>
+    </div>
+  );
+}
+
+export default function ColorModeControl() {
+  const [mode, setMode] = useColorMode();
+
+  return (
+    <div className="color-mode">
+      <div className="color-mode-toggle" role="group" aria-label="Colour mode">
+        <button type="button" aria-pressed={mode === 'palette'} onClick={() => setMode('palette')}>
+          Palette
+        </button>
+        <button type="button" aria-pressed={mode === 'growth'} onClick={() => setMode('growth')}>
+          Growth
+        </button>
+      </div>
+      {mode === 'growth' && <GrowthLegend />}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ColorMode } from '../lib/colors';
+import type { Company } from '../lib/companies';
+import {
+  DEFAULT_EMBED_SIZE,
+  DEFAULT_EMBED_TOP,
+  EMBED_SIZES,
+  MAX_EMBED_TOP,
+  embedSnippet,
+  embedUrl,
+  parseEmbedSize,
+  type EmbedOptions,
+} from '../lib/embed';
+
+const TOP_OPTIONS = [10, 25, 50, 100, 250];
+const COPIED_MS = 1500;
+
+interface EmbedMenuProps {
+  companies: readonly Company[];
+  /** The site's colour mode, used as the embed's starting colour mode. */
+  colorMode: ColorMode;
+}
+
+/** Builds the <iframe> snippet for the embeddable treemap at /embed. */
+export default function EmbedMenu({ companies, colorMode: siteColorMode }: EmbedMenuProps) {
+  const [origin, setOrigin] = useState('');
+  const [top, setTop] = useState(DEFAULT_EMBED_TOP);
+  const [highlight, setHighlight] = useState<string | null>(null);
+  const [colorMode, setColorMode] = useState<ColorMode>(siteColorMode);
+  const [size, setSize] = useState(DEFAULT_EMBED_SIZE);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => setOrigin(window.location.origin), []);
+  useEffect(() => setColorMode(siteColorMode), [siteColorMode]);
+
+  const options: EmbedOptions = { top, highlight, colorMode, size: parseEmbedSize(size) };
+  const snippet = embedSnippet(origin, options);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_MS);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Copying the embed snippet failed:', err);
+    }
+  }
+
+  return (
+    <details className="embed-menu">
+      <summary className="header-action">&lt;/&gt; Embed</summary>
+      <div className="embed-menu-panel filter-panel">
+        <select aria-label="Companies shown" value={top} onChange={(e) => setTop(Number(e.target.value))}>
+          {TOP_OPTIONS.map((n) => (
+            <option key={n} value={n}>
+              Top {n}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Highlighted company"
+          value={highlight ?? ''}
+          onChange={(e) => setHighlight(e.target.value || null)}
+        >
+          <option value="">No highlight</option>
+          {/* The embed page only has the top MAX_EMBED_TOP companies */}
+          {companies.slice(0, MAX_EMBED_TOP).map((c) => (
+            <option key={c.slug} value={c.slug}>
+              #{c.rank} {c.name}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Colour mode" value={colorMode} onChange={(e) => setColorMode(e.target.value as ColorMode)}>
+          <option value="palette">Palette</option>
+          <option value="growth">Growth</option>
+        </select>
+        <select aria-label="Size" value={size} onChange={(e) => setSize(e.target.value)}>
+          {EMBED_SIZES.map((s) => (
+            <option key={s} value={s}>
+              {s.replace('x', ' × ')}
+            </option>
+          ))}
+        </select>
+        <textarea readOnly rows={3} value={snippet} aria-label="Embed snippet" onFocus={(e) => e.target.select()} />
+        <button type="button" className="header-action" onClick={copy}>
+          {copied ? 'Copied' : 'Copy snippet'}
+        </button>
+        <a className="header-action" href={embedUrl(origin, options)} target="_blank" rel="noopener">
+          Preview
+        </a>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import { companyBackground } from '../lib/colors';
+import type { Company } from '../lib/companies';
+import { parseEmbedSize, parseEmbedTop } from '../lib/embed';
+import { addRefToLink } from '../lib/links';
+import { useQueryParam } from '../lib/query';
+import { useElementSize } from '../lib/resize';
+import { buildPercentTreemap } from '../lib/treemap';
+import { useColorMode } from './ColorModeControl';
+import TreemapCard from './TreemapCard';
+
+const DEFAULT_LAYOUT_SIZE = { width: 600, height: 400 }; // until the grid is measured
+
+interface EmbedViewProps {
+  /** The top companies by MRR; the page passes only as many as the embed can draw. */
+  companies: readonly Company[];
+}
+
+/** The treemap alone, for an <iframe> on another site. Options come from the URL (see lib/embed.ts). */
+export default function EmbedView({ companies }: EmbedViewProps) {
+  const [top] = useQueryParam('top');
+  const [highlight] = useQueryParam('highlight');
+  const [size] = useQueryParam('size');
+  const [colorMode] = useColorMode();
+
+  const shown = useMemo(() => {
+    const cut = companies.slice(0, parseEmbedTop(top));
+    // A highlighted company below the cut (but within MAX_EMBED_TOP) is still drawn, or highlighting it would show nothing
+    if (!highlight || cut.some((c) => c.slug === highlight)) return cut;
+    const extra = companies.find((c) => c.slug === highlight);
+    return extra ? [...cut, extra] : cut;
+  }, [companies, top, highlight]);
+  const fixedSize = parseEmbedSize(size);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const gridSize = useElementSize(gridRef);
+  const layoutSize = gridSize && gridSize.width > 0 && gridSize.height > 0 ? gridSize : DEFAULT_LAYOUT_SIZE;
+  const { nodes } = useMemo(
+    () => buildPercentTreemap(shown, layoutSize.width, layoutSize.height),
+    [shown, layoutSize],
+  );
+
+  return (
+    <div className="embed-root" style={fixedSize ?? undefined}>
+      <div ref={gridRef} className="embed-grid">
+        {nodes.map((node) => (
+          <TreemapCard
+            key={node.slug}
+            company={node}
+            rect={node}
+            size={{
+              width: (node.width / 100) * layoutSize.width,
+              height: (node.height / 100) * layoutSize.height,
+            }}
+            background={companyBackground(node, colorMode)}
+            className={highlight ? (node.slug === highlight ? 'is-match' : 'embed-muted') : ''}
+            href={addRefToLink(node.link)}
+          />
+        ))}
+      </div>
+      <div className="embed-attribution">
+        <a href="/" target="_blank" rel="noopener">
+          GridMRR
+        </a>
+        <span>
+          Data:{' '}
+          <a href={addRefToLink('https://trustmrr.com')} target="_blank" rel="noopener noreferrer">
+            TrustMRR
+          </a>
+        </span>
+      </div>
+    </div>
+  );
+}
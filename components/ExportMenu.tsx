@@ -0,0 +1,78 @@
+'use client';
+
+import { EXPORT_HEIGHT, EXPORT_WIDTH, type ExportFrame } from '../lib/export';
+import { VIEWS, type ViewId } from '../lib/routes';
+
+const PNG_SCALE = 2; // export PNGs at 2x for high-density screens and social cards
+
+interface ExportMenuProps {
+  view: ViewId;
+  date: string | null;
+  /** Builds the SVG markup on demand, so nothing is computed until an export is asked for. */
+  buildSvg: (frame: ExportFrame) => string;
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Rasterizes the SVG through an <img> onto a canvas; the SVG has no external images, so the canvas stays untainted
+function svgToPng(svg: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = EXPORT_WIDTH * PNG_SCALE;
+      canvas.height = EXPORT_HEIGHT * PNG_SCALE;
+      const ctx = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!ctx) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the SVG'));
+    };
+    image.src = url;
+  });
+}
+
+export default function ExportMenu({ view, date, buildSvg }: ExportMenuProps) {
+  const frame: ExportFrame = { title: VIEWS.find((v) => v.id === view)?.label ?? view, date };
+  const filename = `gridmrr-${view}${date ? `-${date}` : ''}`;
+
+  function exportSvg() {
+    download(new Blob([buildSvg(frame)], { type: 'image/svg+xml' }), `${filename}.svg`);
+  }
+
+  async function exportPng() {
+    try {
+      download(await svgToPng(buildSvg(frame)), `${filename}.png`);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('PNG export failed:', err);
+    }
+  }
+
+  return (
+    <div className="color-mode-toggle export-menu" role="group" aria-label="Export">
+      <button type="button" onClick={exportSvg}>
+        ↓ SVG
+      </button>
+      <button type="button" onClick={exportPng}>
+        ↓ PNG
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { Company } from '../lib/companies';
+import { applyFilter, isFilterActive, parseFilter, type CompanyFilter } from '../lib/filters';
+import { setQueryParams, useQueryParam } from '../lib/query';
+
+interface Preset {
+  label: string;
+  /** URL value, or null for "no filter". */
+  value: string | null;
+}
+
+const MRR_PRESETS: Preset[] = [
+  { label: 'Any MRR', value: null },
+  { label: 'Under $1k', value: '..1000' },
+  { label: '$1k–$10k', value: '1000..10000' },
+  { label: '$10k–$50k', value: '10000..50000' },
+  { label: '$50k–$100k', value: '50000..100000' },
+  { label: '$100k+', value: '100000..' },
+];
+
+const GROWTH_PRESETS: Preset[] = [
+  { label: 'Any growth', value: null },
+  { label: 'Shrinking', value: '..0' },
+  { label: '0 to +20% MoM', value: '0..20' },
+  { label: '> +20% MoM', value: '20..' },
+  { label: '> +50% MoM', value: '50..' },
+];
+
+const TOP_PRESETS: Preset[] = [
+  { label: 'All companies', value: null },
+  { label: 'Top 10', value: '10' },
+  { label: 'Top 25', value: '25' },
+  { label: 'Top 50', value: '50' },
+  { label: 'Top 100', value: '100' },
+  { label: 'Top 250', value: '250' },
+];
+
+/** Filter from the `?mrr=`, `?growth=` and `?top=` query parameters, applied to `companies`. */
+export function useCompanyFilter(companies: readonly Company[]): {
+  filter: CompanyFilter;
+  filtered: readonly Company[];
+} {
+  const [mrr] = useQueryParam('mrr');
+  const [growth] = useQueryParam('growth');
+  const [top] = useQueryParam('top');
+
+  return useMemo(() => {
+    const filter = parseFilter({ mrr, growth, top });
+    return { filter, filtered: applyFilter(companies, filter) };
+  }, [companies, mrr, growth, top]);
+}
+
+function PresetSelect({ name, label, presets }: { name: string; label: string; presets: Preset[] }) {
+  const [value, setValue] = useQueryParam(name);
+  // Hand-edited URLs can hold values no preset covers; show them as-is
+  const isCustom = value !== null && !presets.some((p) => p.value === value);
+
+  return (
+    <select aria-label={label} value={value ?? ''} onChange={(e) => setValue(e.target.value || null)}>
+      {presets.map((p) => (
+        <option key={p.label} value={p.value ?? ''}>
+          {p.label}
+        </option>
+      ))}
+      {isCustom && <option value={value}>Custom ({value})</option>}
+    </select>
+  );
+}
+
+export default function FilterPanel() {
+  const [mrr] = useQueryParam('mrr');
+  const [growth] = useQueryParam('growth');
+  const [top] = useQueryParam('top');
+  const active = isFilterActive(parseFilter({ mrr, growth, top }));
+
+  return (
+    <div className="filter-panel" role="group" aria-label="Filters">
+      <PresetSelect name="mrr" label="MRR band" presets={MRR_PRESETS} />
+      <PresetSelect name="growth" label="Growth band" presets={GROWTH_PRESETS} />
+      <PresetSelect name="top" label="Top N" presets={TOP_PRESETS} />
+      {active && (
+        <button type="button" className="filter-reset" onClick={() => setQueryParams({ mrr: null, growth: null, top: null })}>
+          Reset
+        </button>
+      )}
+    </div>
+  );
+}
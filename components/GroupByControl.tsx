@@ -0,0 +1,31 @@
+'use client';
+
+import { hasCategories } from '../lib/categories';
+import type { Company } from '../lib/companies';
+import { useQueryParam } from '../lib/query';
+
+export type GroupBy = 'category' | null;
+
+/** Treemap nesting from the `?by=` query parameter; flat by default, and always flat without categories. */
+export function useGroupBy(companies: readonly Company[]): [GroupBy, (groupBy: GroupBy) => void] {
+  const [value, setValue] = useQueryParam('by');
+  const groupBy: GroupBy = value === 'category' && hasCategories(companies) ? 'category' : null;
+  return [groupBy, setValue];
+}
+
+/** Flat / By category toggle; hidden for snapshots without categories. */
+export default function GroupByControl({ companies }: { companies: readonly Company[] }) {
+  const [groupBy, setGroupBy] = useGroupBy(companies);
+  if (!hasCategories(companies)) return null;
+
+  return (
+    <div className="color-mode-toggle" role="group" aria-label="Treemap grouping">
+      <button type="button" aria-pressed={groupBy === null} onClick={() => setGroupBy(null)}>
+        Flat
+      </button>
+      <button type="button" aria-pressed={groupBy === 'category'} onClick={() => setGroupBy('category')}>
+        By category
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { getCumulativeShare, getTotalMrr, type Company } from '../lib/companies';
+import { formatGrowth, formatMRR, formatShare } from '../lib/format';
+import { isOthersGroup, type LongTailItem } from '../lib/others';
+
+const LONG_PRESS_MS = 500;
+const CARD_WIDTH = 260; // keep in sync with .hover-card
+const CARD_OFFSET = 14;
+
+interface HoverTarget {
+  item: LongTailItem;
+  /** Viewport coordinates the card is anchored to. */
+  x: number;
+  y: number;
+}
+
+/**
+ * Shows and hides the hover card. Kept outside React state so moving the
+ * pointer re-renders only the card, not the hundreds of tiles it describes.
+ */
+export interface HoverController {
+  show: (item: LongTailItem, x: number, y: number) => void;
+  hide: () => void;
+  subscribe: (listener: (target: HoverTarget | null) => void) => () => void;
+}
+
+export type HoverHandlers = Pick<
+  React.HTMLAttributes<HTMLElement>,
+  | 'onMouseEnter'
+  | 'onMouseMove'
+  | 'onMouseLeave'
+  | 'onFocus'
+  | 'onBlur'
+  | 'onTouchStart'
+  | 'onTouchMove'
+  | 'onTouchEnd'
+  | 'onContextMenu'
+>;
+
+export function useHoverController(): HoverController {
+  return useMemo(() => {
+    const listeners = new Set<(target: HoverTarget | null) => void>();
+    const emit = (target: HoverTarget | null) => listeners.forEach((listener) => listener(target));
+    return {
+      show: (item, x, y) => emit({ item, x, y }),
+      hide: () => emit(null),
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+  }, []);
+}
+
+/**
+ * Handlers that show the card for `item` on hover, keyboard focus and touch
+ * long-press. A long-press swallows the tap that ends it, so it does not
+ * also follow the link.
+ */
+export function hoverHandlers(controller: HoverController, item: LongTailItem): HoverHandlers {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pressed = false;
+
+  return {
+    onMouseEnter: (e) => controller.show(item, e.clientX, e.clientY),
+    onMouseMove: (e) => controller.show(item, e.clientX, e.clientY),
+    onMouseLeave: () => controller.hide(),
+    onFocus: (e) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      controller.show(item, rect.left + rect.width / 2, rect.top + rect.height / 2);
+    },
+    onBlur: () => controller.hide(),
+    onTouchStart: (e) => {
+      const touch = e.touches[0];
+      pressed = false;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        pressed = true;
+        controller.show(item, touch.clientX, touch.clientY);
+      }, LONG_PRESS_MS);
+    },
+    onTouchMove: () => clearTimeout(timer),
+    onTouchEnd: (e) => {
+      clearTimeout(timer);
+      if (pressed) e.preventDefault();
+    },
+    onContextMenu: (e) => {
+      if (pressed) e.preventDefault();
+    },
+  };
+}
+
+interface HoverCardProps {
+  controller: HoverController;
+  /** The snapshot's full ranking, which shares are taken of. */
+  ranking: readonly Company[];
+}
+
+function Stat({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <dt>{label}</dt>
+      <dd className={className}>{value}</dd>
+    </div>
+  );
+}
+
+export default function HoverCard({ controller, ranking }: HoverCardProps) {
+  const [target, setTarget] = useState<HoverTarget | null>(null);
+
+  useEffect(() => controller.subscribe(setTarget), [controller]);
+
+  // A long-pressed card stays up until the next touch or scroll
+  useEffect(() => {
+    if (!target) return undefined;
+    const hide = () => setTarget(null);
+    window.addEventListener('scroll', hide, true);
+    window.addEventListener('touchstart', hide, true);
+    return () => {
+      window.removeEventListener('scroll', hide, true);
+      window.removeEventListener('touchstart', hide, true);
+    };
+  }, [target]);
+
+  if (!target) return null;
+  const { item } = target;
+  const group = isOthersGroup(item) ? item : null;
+  // A group ranks from its largest to its smallest company, and its cumulative share runs to the smallest
+  const first = group ? group.companies[0] : (item as Company);
+  const last = group ? group.companies[group.companies.length - 1] : (item as Company);
+  const total = getTotalMrr(ranking);
+  const share = total > 0 ? Math.max(item.mrr, 0) / total : 0;
+
+  // Flip to the other side of the anchor near the right and bottom edges
+  const fitsRight = target.x + CARD_OFFSET + CARD_WIDTH <= window.innerWidth;
+  const left = fitsRight ? target.x + CARD_OFFSET : target.x - CARD_OFFSET - CARD_WIDTH;
+  const flipUp = target.y > window.innerHeight * 0.6;
+  const style: React.CSSProperties = {
+    left: Math.max(left, 4),
+    ...(flipUp ? { bottom: window.innerHeight - target.y + CARD_OFFSET } : { top: target.y + CARD_OFFSET }),
+  };
+
+  return (
+    <div className="hover-card" style={style} role="tooltip">
+      <div className="hover-card-header">
+        {!group && first.logo && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={first.logo} alt="" className="hover-card-logo" />
+        )}
+        <div className="hover-card-name">{group ? `Others: ${group.companies.length} companies` : item.name}</div>
+      </div>
+      <dl className="hover-card-stats">
+        <Stat label="MRR" value={`${formatMRR(item.mrr)} / mo`} />
+        <Stat
+          label="MoM growth"
+          value={formatGrowth(item.mom_growth)}
+          className={item.mom_growth >= 0 ? 'company-growth-up' : 'company-growth-down'}
+        />
+        <Stat label="Rank" value={group ? `#${first.rank}–${last.rank}` : `#${first.rank} of ${ranking.length}`} />
+        <Stat label="Share of total" value={formatShare(share)} />
+        <Stat label="Cumulative share" value={formatShare(getCumulativeShare(last, ranking))} />
+      </dl>
+    </div>
+  );
+}
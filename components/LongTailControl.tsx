@@ -0,0 +1,82 @@
+'use client';
+
+import { useMemo } from 'react';
+import type { Company } from '../lib/companies';
+import { formatMRRAbbreviated } from '../lib/format';
+import { groupLongTail, OTHERS_SLUG, parseOthersThreshold, type LongTail, type OthersGroup } from '../lib/others';
+import { useQueryParam } from '../lib/query';
+
+const THRESHOLD_OPTIONS = [
+  { label: 'No grouping', value: 'off' },
+  { label: 'Group under 0.05%', value: '0.05' },
+  { label: 'Group under 0.1%', value: '0.1' },
+  { label: 'Group under 0.25%', value: '0.25' },
+  { label: 'Group under 0.5%', value: '0.5' },
+  { label: 'Group under 1%', value: '1' },
+];
+const DEFAULT_OPTION = '0.1';
+
+export interface LongTailState extends LongTail {
+  /** Fraction of the total MRR below which companies are grouped; 0 when grouping is off. */
+  threshold: number;
+  /** True while the view shows only the grouped companies. */
+  drilled: boolean;
+  setDrilled: (drilled: boolean) => void;
+}
+
+const OTHERS_GROUP = 'others'; // `?group=` value of the drill-down; the URL keeps a readable name
+
+/** `companies` split by the `?others=` threshold, plus the `?group=others` drill-down. */
+export function useLongTail(companies: readonly Company[]): LongTailState {
+  const [value] = useQueryParam('others');
+  const [group, setGroup] = useQueryParam('group');
+  const threshold = parseOthersThreshold(value);
+  const longTail = useMemo(() => groupLongTail(companies, threshold), [companies, threshold]);
+
+  return {
+    ...longTail,
+    threshold,
+    drilled: group === OTHERS_GROUP && longTail.others !== null,
+    setDrilled: (drilled) => setGroup(drilled ? OTHERS_GROUP : null),
+  };
+}
+
+/** The slug to scroll to for `slug`: the Others tile stands in for the companies it groups. */
+export function visibleSlug(slug: string | null, others: OthersGroup | null): string | null {
+  return slug && others?.companies.some((c) => c.slug === slug) ? OTHERS_SLUG : slug;
+}
+
+export default function LongTailControl({ others, drilled, onExit }: {
+  others: OthersGroup | null;
+  drilled: boolean;
+  onExit: () => void;
+}) {
+  const [value, setValue] = useQueryParam('others');
+
+  if (drilled && others) {
+    return (
+      <button type="button" className="header-action" onClick={onExit}>
+        ← Back from Others ({others.companies.length} companies, {formatMRRAbbreviated(others.mrr)})
+      </button>
+    );
+  }
+
+  return (
+    <div className="filter-panel">
+      <select
+        aria-label="Group the long tail"
+        value={value ?? DEFAULT_OPTION}
+        onChange={(e) => setValue(e.target.value === DEFAULT_OPTION ? null : e.target.value)}
+      >
+        {THRESHOLD_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+        {value !== null && !THRESHOLD_OPTIONS.some((o) => o.value === value) && (
+          <option value={value}>Group under {value}%</option>
+        )}
+      </select>
+    </div>
+  );
+}
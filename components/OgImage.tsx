@@ -0,0 +1,245 @@
+import type React from 'react';
+import { companyColor, othersColor, shadeColor } from '../lib/colors';
+import { getMrrShare, getNeighbours, getTotalMrr, type Company } from '../lib/companies';
+import { formatGrowth, formatMRRAbbreviated, formatShare } from '../lib/format';
+import { OG_SIZE } from '../lib/og';
+import { groupLongTail, isOthersGroup, type LongTailItem } from '../lib/others';
+import { buildPixelGrid, EMPTY_CELL, MIN_PIXEL_SIZE } from '../lib/pixelGrid';
+import { VIEWS, type ViewId } from '../lib/routes';
+import { buildTreemap } from '../lib/treemap';
+
+// Open Graph images, rendered at build time by scripts/generate-og-images.ts
+// through next/og (Satori). Satori only understands inline styles and flexbox,
+// and every element with several children needs `display: flex`.
+
+const PADDING = 32;
+const HEADER_HEIGHT = 72;
+const FOOTER_HEIGHT = 44;
+const BODY = { width: OG_SIZE.width - PADDING * 2, height: OG_SIZE.height - HEADER_HEIGHT - FOOTER_HEIGHT };
+
+const OG_OTHERS_THRESHOLD = 0.002; // coarser than the site's 0.1%, as an OG image is seen small
+const OG_PIXEL_SIZE = 12;
+const OG_ROWS = 12;
+const OG_COLUMNS = 60;
+const NEIGHBOUR_RADIUS = 4;
+const DIMMED_LIGHTEN = 70;
+
+/**
+ * The bundled font covers Latin-1 and common punctuation; anything else
+ * (emoji above all) makes next/og fetch fonts from the network, which a
+ * build must not depend on.
+ */
+function ogText(text: string): string {
+  // Accented letters outside Latin-1 (ō) lose the accent rather than disappear
+  const latin = Array.from(text.normalize('NFC'), (ch) =>
+    ch <= '\u00FF' ? ch : ch.normalize('NFD').replace(/[\u0300-\u036F]/g, ''),
+  ).join('');
+  return latin
+    .replace(/[^\u0020-\u007E\u00A0-\u00FF\u2013\u2014\u2018-\u201D\u2022\u2026\u2122]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function itemColor(item: LongTailItem): string {
+  return isOthersGroup(item) ? othersColor(item.mom_growth, 'palette') : companyColor(item, 'palette');
+}
+
+function Frame({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', background: '#f8fafc', padding: `0 ${PADDING}px` }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', height: HEADER_HEIGHT }}>
+        <div style={{ display: 'flex', fontSize: 34, fontWeight: 700, color: '#0f172a' }}>{ogText(title)}</div>
+        <div style={{ display: 'flex', fontSize: 20, color: '#64748b' }}>{subtitle}</div>
+      </div>
+      <div style={{ display: 'flex', position: 'relative', width: BODY.width, height: BODY.height }}>{children}</div>
+      <div style={{ display: 'flex', alignItems: 'center', height: FOOTER_HEIGHT, fontSize: 16, color: '#64748b' }}>
+        Data: TrustMRR (trustmrr.com) · GridMRR is not affiliated with TrustMRR
+      </div>
+    </div>
+  );
+}
+
+function Treemap({ items, width, height, highlight = null }: {
+  items: readonly LongTailItem[];
+  width: number;
+  height: number;
+  highlight?: string | null;
+}) {
+  const { nodes } = buildTreemap(items, width, height);
+  return (
+    <div style={{ display: 'flex', position: 'relative', width, height }}>
+      {nodes.map((node) => {
+        const color = itemColor(node);
+        const labelled = node.width >= 90 && node.height >= 44;
+        return (
+          <div
+            key={node.slug}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              position: 'absolute',
+              left: node.x,
+              top: node.y,
+              width: Math.max(node.width - 3, 0),
+              height: Math.max(node.height - 3, 0),
+              padding: labelled ? 8 : 0,
+              borderRadius: 8,
+              overflow: 'hidden',
+              background: highlight && node.slug !== highlight ? shadeColor(color, DIMMED_LIGHTEN) : color,
+              border: highlight && node.slug === highlight ? '3px solid #0f172a' : 'none',
+            }}
+          >
+            {labelled && <div style={{ fontSize: 16, fontWeight: 700, color: '#0f172a' }}>{ogText(node.name)}</div>}
+            {labelled && <div style={{ fontSize: 15, color: '#334155' }}>{formatMRRAbbreviated(node.mrr)}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function PixelMap({ items }: { items: readonly LongTailItem[] }) {
+  // buildPixelGrid sizes cells at MIN_PIXEL_SIZE; scale the area so they come out at OG_PIXEL_SIZE
+  const scale = MIN_PIXEL_SIZE / OG_PIXEL_SIZE;
+  const grid = buildPixelGrid(items, BODY.width * scale, BODY.height * scale, { colorMode: 'palette' });
+  const cellW = BODY.width / grid.cols;
+  const cellH = BODY.height / grid.rows;
+  const colorByIndex = new Map(grid.companies.map((meta) => [meta.index, meta.color]));
+
+  // One element per horizontal run of same-company cells
+  const runs: React.ReactNode[] = [];
+  for (let row = 0; row < grid.rows; row += 1) {
+    let col = 0;
+    while (col < grid.cols) {
+      const index = grid.pixels[row * grid.cols + col];
+      let end = col + 1;
+      while (end < grid.cols && grid.pixels[row * grid.cols + end] === index) end += 1;
+      const color = index === EMPTY_CELL ? undefined : colorByIndex.get(index);
+      if (color) {
+        runs.push(
+          <div
+            key={`${row}-${col}`}
+            style={{
+              position: 'absolute',
+              left: col * cellW,
+              top: row * cellH,
+              width: (end - col) * cellW,
+              height: cellH,
+              background: color,
+            }}
+          />,
+        );
+      }
+      col = end;
+    }
+  }
+  return <div style={{ display: 'flex', position: 'relative', width: BODY.width, height: BODY.height }}>{runs}</div>;
+}
+
+// Same 1/4 power the stacked rows and vertical bars use
+function barSize(company: Company, maxMRR: number, length: number): number {
+  return Math.max(Math.pow(Math.max(company.mrr, 0) / (maxMRR || 1), 0.25) * length, 4);
+}
+
+function Rows({ companies }: { companies: readonly Company[] }) {
+  const shown = companies.slice(0, OG_ROWS);
+  const rowHeight = BODY.height / OG_ROWS;
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', width: BODY.width }}>
+      {shown.map((company) => (
+        <div
+          key={company.slug}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            height: rowHeight - 4,
+            marginBottom: 4,
+            width: barSize(company, shown[0].mrr, BODY.width),
+            padding: '0 12px',
+            borderRadius: 8,
+            background: companyColor(company, 'palette'),
+            fontSize: 18,
+            fontWeight: 600,
+            color: '#0f172a',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {`${company.rank}. ${ogText(company.name)} · ${formatMRRAbbreviated(company.mrr)}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Columns({ companies }: { companies: readonly Company[] }) {
+  const shown = companies.slice(0, OG_COLUMNS);
+  const columnWidth = BODY.width / OG_COLUMNS;
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', width: BODY.width, height: BODY.height }}>
+      {shown.map((company) => (
+        <div
+          key={company.slug}
+          style={{
+            width: columnWidth - 3,
+            marginRight: 3,
+            height: barSize(company, shown[0].mrr, BODY.height),
+            borderRadius: 4,
+            background: companyColor(company, 'palette'),
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface OgViewImageProps {
+  view: ViewId;
+  date: string | null;
+  companies: readonly Company[];
+}
+
+/** OG image for a view of one snapshot: its title, date and totals over the view itself. */
+export function OgViewImage({ view, date, companies }: OgViewImageProps) {
+  const label = VIEWS.find((v) => v.id === view)?.label ?? view;
+  const subtitle = `${date ?? 'Latest'} · ${companies.length} startups · ${formatMRRAbbreviated(getTotalMrr(companies))} MRR`;
+  const { items } = groupLongTail(companies, OG_OTHERS_THRESHOLD);
+
+  return (
+    <Frame title={`GridMRR — ${label}`} subtitle={subtitle}>
+      {view === 'treemap' && <Treemap items={items} width={BODY.width} height={BODY.height} />}
+      {view === 'pixel-map' && <PixelMap items={items} />}
+      {view === 'stacked-rows' && <Rows companies={companies} />}
+      {view === 'vertical' && <Columns companies={companies} />}
+    </Frame>
+  );
+}
+
+interface OgCompanyImageProps {
+  company: Company;
+  /** The snapshot the company is ranked in. */
+  companies: readonly Company[];
+  date: string | null;
+}
+
+/** OG image for a company page: its numbers next to its neighbours in the ranking. */
+export function OgCompanyImage({ company, companies, date }: OgCompanyImageProps) {
+  const neighbours = getNeighbours(company, NEIGHBOUR_RADIUS, companies);
+  const statStyle = { display: 'flex', fontSize: 26, color: '#334155', marginTop: 12 };
+  const treemapWidth = Math.round(BODY.width * 0.45);
+
+  return (
+    <Frame title="GridMRR" subtitle={date ?? 'Latest'}>
+      <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', width: BODY.width - treemapWidth - 32, marginRight: 32 }}>
+        <div style={{ display: 'flex', fontSize: 60, fontWeight: 700, color: '#0f172a', lineHeight: 1.1 }}>
+          {ogText(company.name)}
+        </div>
+        <div style={{ display: 'flex', fontSize: 72, fontWeight: 700, color: '#2563eb', marginTop: 20 }}>
+          {`${formatMRRAbbreviated(company.mrr)} / mo`}
+        </div>
+        <div style={statStyle}>{`${formatGrowth(company.mom_growth)} MoM`}</div>
+        <div style={statStyle}>{`#${company.rank} of ${companies.length} · ${formatShare(getMrrShare(company, companies))} of all MRR`}</div>
+      </div>
+      <Treemap items={neighbours} width={treemapWidth} height={BODY.height} highlight={company.slug} />
+    </Frame>
+  );
+}
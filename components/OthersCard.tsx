@@ -0,0 +1,43 @@
+import type React from 'react';
+import { formatGrowth, formatMRR, formatMRRAbbreviated } from '../lib/format';
+import type { OthersGroup } from '../lib/others';
+import type { TreemapRect } from '../lib/treemap';
+import type { HoverHandlers } from './HoverCard';
+import { tilePosition } from './TreemapCard';
+
+interface OthersCardProps {
+  group: OthersGroup;
+  rect: TreemapRect;
+  background: string;
+  className?: string;
+  style?: React.CSSProperties;
+  /** Drills into the grouped companies. */
+  onOpen: () => void;
+  hover?: HoverHandlers;
+}
+
+export default function OthersCard({ group, rect, background, className = '', style, onOpen, hover }: OthersCardProps) {
+  const count = group.companies.length;
+
+  return (
+    <button
+      type="button"
+      className={`treemap-card treemap-card-others ${className}`}
+      style={{ ...tilePosition(rect), background, ...style }}
+      data-slug={group.slug}
+      title={hover ? undefined : `Others: ${count} companies — ${formatMRR(group.mrr)} / mo`}
+      onClick={onOpen}
+      {...hover}
+    >
+      <div className="treemap-card-inner">
+        <div className="treemap-card-header">
+          <div className="treemap-name">Others</div>
+          <div className="treemap-mrr">{formatMRRAbbreviated(group.mrr)}</div>
+        </div>
+        <div className="treemap-growth">
+          {count} companies · {formatGrowth(group.mom_growth)} MoM
+        </div>
+      </div>
+    </button>
+  );
+}
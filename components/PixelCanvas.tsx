@@ -0,0 +1,280 @@
+'use client';
+
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useRef, type RefObject } from 'react';
+import { shadeColor } from '../lib/colors';
+import type { Company } from '../lib/companies';
+import { formatMRRAbbreviated } from '../lib/format';
+import type { LongTailItem } from '../lib/others';
+import type { CompanyPixelMeta, PixelGridState } from '../lib/pixelGrid';
+import { useElementSize } from '../lib/resize';
+import HoverCard, { useHoverController } from './HoverCard';
+import { groupSearchClass, searchClass, type SearchState } from './SearchBox';
+
+const LABEL_MIN_AREA = 4000; // CSS px² a block needs before it gets an inline label
+const LABEL_FONT = '600 10px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+const DIMMED_LIGHTEN = 80; // how far search-dimmed blocks fade towards white, in %
+const LONG_PRESS_MS = 500;
+
+interface PixelCanvasProps {
+  grid: PixelGridState;
+  /** What the grid was built from; `CompanyPixelMeta.index` points into it. */
+  items: readonly LongTailItem[];
+  /** The snapshot's full ranking, for the hover card's shares. */
+  ranking: readonly Company[];
+  search: SearchState;
+  /**
+   * Fixed CSS px per cell: the grid takes its natural size and scrolls in
+   * `viewportRef` instead of filling its parent. The canvas itself only
+   * covers the visible part, as a tall grid would exceed canvas size limits.
+   */
+  cellSize?: number;
+  viewportRef?: RefObject<HTMLElement>;
+  onSelect: (meta: CompanyPixelMeta) => void;
+}
+
+function isDimmed(meta: CompanyPixelMeta, search: SearchState): boolean {
+  const cls = meta.grouped ? groupSearchClass(search, meta.grouped) : searchClass(search, meta.slug);
+  return cls === 'is-dimmed';
+}
+
+// One canvas pixel per cell; drawn scaled up without smoothing, so a redraw costs one blit
+function renderCells(grid: PixelGridState, metaByIndex: (CompanyPixelMeta | undefined)[], search: SearchState) {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.cols;
+  canvas.height = grid.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const rgbByIndex = metaByIndex.map((meta) => {
+    if (!meta) return [0, 0, 0];
+    const hex = isDimmed(meta, search) ? shadeColor(meta.color, DIMMED_LIGHTEN) : meta.color;
+    const num = parseInt(hex.replace('#', ''), 16);
+    return [(num >> 16) & 0xff, (num >> 8) & 0xff, num & 0xff];
+  });
+
+  const image = ctx.createImageData(grid.cols, grid.rows);
+  const { data } = image;
+  for (let p = 0; p < grid.pixels.length; p += 1) {
+    const rgb = rgbByIndex[grid.pixels[p]];
+    if (!rgb) continue; // EMPTY_CELL stays transparent
+    const o = p * 4;
+    data[o] = rgb[0];
+    data[o + 1] = rgb[1];
+    data[o + 2] = rgb[2];
+    data[o + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+/** Draws labels for a grid drawn at `width` x `height`; with the context translated, only the visible ones land. */
+function drawLabels(ctx: CanvasRenderingContext2D, grid: PixelGridState, width: number, height: number) {
+  const cellW = width / grid.cols;
+  const cellH = height / grid.rows;
+
+  ctx.font = LABEL_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#0f172a';
+  ctx.shadowColor = 'rgba(255, 255, 255, 0.7)';
+  ctx.shadowBlur = 2;
+
+  for (const meta of grid.companies) {
+    if (meta.count * cellW * cellH < LABEL_MIN_AREA) continue;
+    const { col, row, cols, rows } = meta.bounds;
+    const maxWidth = Math.max(cols * cellW - 6, 0);
+    ctx.fillText(
+      `${meta.name} ${formatMRRAbbreviated(meta.mrr)}`,
+      (col + cols / 2) * cellW,
+      (row + rows / 2) * cellH,
+      maxWidth,
+    );
+  }
+}
+
+/**
+ * Canvas renderer for a pixel grid, with hover and click hit-tested back to
+ * the owning company. Arrow keys step through the companies in rank order
+ * for keyboard users; a touch long-press shows the hover card.
+ */
+export default function PixelCanvas({ grid, items, ranking, search, cellSize, viewportRef, onSelect }: PixelCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null); // the full-size grid area a fixed-cell canvas scrolls over
+  const fallbackRef = useRef<HTMLElement>(null);
+  const viewport = useElementSize(viewportRef ?? fallbackRef);
+  const hover = useHoverController();
+  const focusedRef = useRef(-1); // position in grid.companies picked with the keyboard
+  const pressRef = useRef<{ timer?: ReturnType<typeof setTimeout>; pressed: boolean }>({ pressed: false });
+
+  useEffect(() => {
+    focusedRef.current = -1;
+    hover.hide();
+  }, [grid, hover]);
+
+  const metaByIndex = useMemo(() => {
+    const byIndex: (CompanyPixelMeta | undefined)[] = [];
+    for (const meta of grid.companies) {
+      byIndex[meta.index] = meta;
+    }
+    return byIndex;
+  }, [grid]);
+
+  // Where the whole grid is on screen: the canvas itself, or the area a fixed-cell canvas scrolls over
+  const gridBounds = useCallback(
+    (): DOMRect | null => (cellSize ? scrollRef.current : canvasRef.current)?.getBoundingClientRect() ?? null,
+    [cellSize],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return undefined;
+    const cells = renderCells(grid, metaByIndex, search);
+    const scroller = cellSize ? viewportRef?.current : null;
+    let frame = 0;
+
+    // Stretch the cached cells over the grid area and keep the part under the canvas; the grid itself is rebuilt by the parent once resizing settles
+    function draw() {
+      const area = gridBounds();
+      if (!canvas || !area) return;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const dpr = Math.min(window.devicePixelRatio || 1, 2);
+      const bounds = canvas.getBoundingClientRect();
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.translate(area.left - bounds.left, area.top - bounds.top);
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(cells, 0, 0, area.width, area.height);
+      drawLabels(ctx, grid, area.width, area.height);
+    }
+
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    const observer = new ResizeObserver(schedule);
+    observer.observe(canvas);
+    scroller?.addEventListener('scroll', schedule, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      scroller?.removeEventListener('scroll', schedule);
+    };
+  }, [grid, metaByIndex, search, cellSize, viewportRef, gridBounds]);
+
+  function hitTest(clientX: number, clientY: number): CompanyPixelMeta | null {
+    const bounds = gridBounds();
+    if (!bounds) return null;
+    const col = Math.floor(((clientX - bounds.left) / bounds.width) * grid.cols);
+    const row = Math.floor(((clientY - bounds.top) / bounds.height) * grid.rows);
+    if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return null;
+    return metaByIndex[grid.pixels[row * grid.cols + col]] ?? null;
+  }
+
+  function showAt(clientX: number, clientY: number) {
+    const meta = hitTest(clientX, clientY);
+    if (meta) {
+      hover.show(items[meta.index], clientX, clientY);
+    } else {
+      hover.hide();
+    }
+  }
+
+  // Anchors the card at the centre of a company's bounding box
+  function showFocused() {
+    const bounds = gridBounds();
+    const meta = grid.companies[focusedRef.current];
+    if (!bounds || !meta) return;
+    const { col, row, cols, rows } = meta.bounds;
+    hover.show(
+      items[meta.index],
+      bounds.left + ((col + cols / 2) / grid.cols) * bounds.width,
+      bounds.top + ((row + rows / 2) / grid.rows) * bounds.height,
+    );
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    const count = grid.companies.length;
+    if (count === 0) return;
+    if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+      focusedRef.current = (focusedRef.current + 1) % count;
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+      focusedRef.current = (Math.max(focusedRef.current, 0) - 1 + count) % count;
+    } else if (e.key === 'Enter' && focusedRef.current >= 0) {
+      onSelect(grid.companies[focusedRef.current]);
+      return;
+    } else if (e.key === 'Escape') {
+      hover.hide();
+      return;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    showFocused();
+  }
+
+  function handleTouchStart(e: React.TouchEvent) {
+    const touch = e.touches[0];
+    const press = pressRef.current;
+    press.pressed = false;
+    clearTimeout(press.timer);
+    press.timer = setTimeout(() => {
+      press.pressed = true;
+      showAt(touch.clientX, touch.clientY);
+    }, LONG_PRESS_MS);
+  }
+
+  function handleTouchEnd(e: React.TouchEvent) {
+    clearTimeout(pressRef.current.timer);
+    // The tap ending a long-press must not also open the company
+    if (pressRef.current.pressed) e.preventDefault();
+  }
+
+  const canvas = (
+    <canvas
+      ref={canvasRef}
+      className={cellSize ? 'pixel-canvas pixel-canvas-viewport' : 'pixel-canvas'}
+      style={cellSize ? { height: Math.min(viewport?.height ?? 0, grid.rows * cellSize) } : undefined}
+      role="img"
+      tabIndex={0}
+      aria-label={`Pixel map of ${grid.companies.length} companies; arrow keys step through them, Enter opens one`}
+      onMouseMove={(e) => showAt(e.clientX, e.clientY)}
+      onMouseLeave={() => hover.hide()}
+      onFocus={() => showFocused()}
+      onBlur={() => hover.hide()}
+      onKeyDown={handleKeyDown}
+      onTouchStart={handleTouchStart}
+      onTouchMove={() => clearTimeout(pressRef.current.timer)}
+      onTouchEnd={handleTouchEnd}
+      onContextMenu={(e) => {
+        if (pressRef.current.pressed) e.preventDefault();
+      }}
+      onClick={(e) => {
+        const hit = hitTest(e.clientX, e.clientY);
+        if (hit) onSelect(hit);
+      }}
+    />
+  );
+
+  return (
+    <>
+      {cellSize ? (
+        <div
+          ref={scrollRef}
+          className="pixel-canvas-scroll"
+          style={{ width: grid.cols * cellSize, height: grid.rows * cellSize }}
+        >
+          {canvas}
+        </div>
+      ) : (
+        canvas
+      )}
+      <HoverCard controller={hover} ranking={ranking} />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import type { PixelLayout } from '../lib/pixelGrid';
+import { useQueryParam } from '../lib/query';
+
+/** Pixel map layout from the `?layout=` query parameter; Hilbert blobs are the default. */
+export function usePixelLayout(): [PixelLayout, (layout: PixelLayout) => void] {
+  const [value, setValue] = useQueryParam('layout');
+  const layout: PixelLayout = value === 'rows' ? 'rows' : 'hilbert';
+  return [layout, (next) => setValue(next === 'hilbert' ? null : next)];
+}
+
+export default function PixelLayoutControl() {
+  const [layout, setLayout] = usePixelLayout();
+
+  return (
+    <div className="color-mode-toggle pixel-layout-toggle" role="group" aria-label="Pixel layout">
+      <button type="button" aria-pressed={layout === 'hilbert'} onClick={() => setLayout('hilbert')}>
+        Blobs
+      </button>
+      <button type="button" aria-pressed={layout === 'rows'} onClick={() => setLayout('rows')}>
+        Rows
+      </button>
+    </div>
+  );
+}
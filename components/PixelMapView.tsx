@@ -0,0 +1,137 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Company } from '../lib/companies';
+import { pixelMapSvg } from '../lib/export';
+import type { LongTailItem } from '../lib/others';
+import { buildPixelGrid, MIN_PIXEL_SIZE, type CompanyPixelMeta } from '../lib/pixelGrid';
+import { companyHref, type SnapshotNav } from '../lib/routes';
+import ColorModeControl, { useColorMode } from './ColorModeControl';
+import ExportMenu from './ExportMenu';
+import { useCompanyFilter } from './FilterPanel';
+import LongTailControl, { useLongTail } from './LongTailControl';
+import PixelCanvas from './PixelCanvas';
+import PixelLayoutControl, { usePixelLayout } from './PixelLayoutControl';
+import PixelUnitControl, { usePixelUnit } from './PixelUnitControl';
+import { useSearch } from './SearchBox';
+import SiteFooter from './SiteFooter';
+import SiteHeader from './SiteHeader';
+
+const RESIZE_SETTLE_MS = 150; // rebuild the grid once resizing pauses; the canvas stretches until then
+
+interface PixelMapViewProps {
+  companies: readonly Company[];
+  snapshot: SnapshotNav;
+}
+
+export default function PixelMapView({ companies: data, snapshot }: PixelMapViewProps) {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [colorMode] = useColorMode();
+  const [layout] = usePixelLayout();
+  const [unit] = usePixelUnit();
+  const { filtered } = useCompanyFilter(data);
+  const { items, others, drilled, setDrilled } = useLongTail(filtered);
+  // A fixed unit promises every company its own pixels, so nothing folds into Others
+  const shown: readonly LongTailItem[] = unit ? filtered : drilled && others ? others.companies : items;
+  const search = useSearch(filtered);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const measure = () => {
+      const style = window.getComputedStyle(container);
+      setSize({
+        width: container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight),
+        height: container.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom),
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(() => {
+      clearTimeout(timer);
+      timer = setTimeout(measure, RESIZE_SETTLE_MS);
+    });
+    observer.observe(container);
+    return () => {
+      clearTimeout(timer);
+      observer.disconnect();
+    };
+  }, []);
+
+  const grid = useMemo(() => {
+    if (!size || shown.length === 0) return null;
+    return buildPixelGrid(shown, size.width, size.height, { colorMode, layout, unit });
+  }, [shown, size, colorMode, layout, unit]);
+
+  // The canvas has no element per company for useScrollToMatch, so scroll a tall grid to the match's block
+  const best = search.best;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !grid?.unit || !best) return;
+    const meta = grid.companies.find((m) => m.slug === best || m.grouped?.some((c) => c.slug === best));
+    if (!meta) return;
+    const { row, rows } = meta.bounds;
+    container.scrollTo({ top: (row + rows / 2) * MIN_PIXEL_SIZE - container.clientHeight / 2, behavior: 'smooth' });
+  }, [best, grid]);
+
+  function handleSelect(meta: CompanyPixelMeta) {
+    if (meta.grouped) {
+      setDrilled(true);
+    } else {
+      router.push(companyHref(meta.slug));
+    }
+  }
+
+  return (
+    <>
+      <SiteHeader
+        view="pixel-map"
+        snapshot={snapshot}
+        subtitle={
+          grid
+            ? `Pixel Map — 1 pixel ${grid.unit ? '=' : '≈'} $${grid.dollarsPerPixel.toFixed(0)} MRR`
+            : 'Pixel Map'
+        }
+        actions={
+          <>
+            <ColorModeControl />
+            <PixelLayoutControl />
+            <PixelUnitControl unit={grid?.unit ?? null} underUnit={grid?.underUnit ?? 0} />
+            {!unit && <LongTailControl others={others} drilled={drilled} onExit={() => setDrilled(false)} />}
+            <ExportMenu
+              view="pixel-map"
+              date={snapshot.date}
+              buildSvg={(frame) => pixelMapSvg(shown, colorMode, layout, unit, frame)}
+            />
+          </>
+        }
+      />
+
+      <main className="app-shell">
+        <section className="app-main">
+          {filtered.length === 0 && <div className="empty-state">No companies match these filters.</div>}
+          <div ref={containerRef} className="pixel-map-container" hidden={filtered.length === 0}>
+            {grid && (
+              <PixelCanvas
+                grid={grid}
+                items={shown}
+                ranking={data}
+                search={search}
+                cellSize={grid.unit ? MIN_PIXEL_SIZE : undefined}
+                viewportRef={containerRef}
+                onSelect={handleSelect}
+              />
+            )}
+          </div>
+        </section>
+      </main>
+
+      <SiteFooter />
+
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { formatMRRAbbreviated } from '../lib/format';
+import { useQueryParam } from '../lib/query';
+
+const UNIT_OPTIONS = [1, 10, 100, 1000];
+
+/** Fixed pixel denomination from the `?unit=` query parameter (USD per pixel), or null to fit the screen. */
+export function usePixelUnit(): [number | null, (unit: number | null) => void] {
+  const [value, setValue] = useQueryParam('unit');
+  const unit = value ? Number(value) : NaN;
+  return [Number.isFinite(unit) && unit > 0 ? unit : null, (next) => setValue(next ? String(next) : null)];
+}
+
+interface PixelUnitControlProps {
+  /** Denomination the grid ended up using, which may be larger than the one asked for. */
+  unit: number | null;
+  /** Companies under one unit, each still drawn as one pixel. */
+  underUnit: number;
+}
+
+export default function PixelUnitControl({ unit, underUnit }: PixelUnitControlProps) {
+  const [requested, setRequested] = usePixelUnit();
+
+  return (
+    <div className="filter-panel">
+      <select
+        aria-label="Pixel denomination"
+        value={requested ?? ''}
+        onChange={(e) => setRequested(e.target.value ? Number(e.target.value) : null)}
+      >
+        <option value="">Fit to screen</option>
+        {UNIT_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            1 pixel = {formatMRRAbbreviated(option)}
+          </option>
+        ))}
+        {requested !== null && !UNIT_OPTIONS.includes(requested) && (
+          <option value={requested}>1 pixel = {formatMRRAbbreviated(requested)}</option>
+        )}
+      </select>
+      {unit !== null && (
+        <span className="pixel-unit-legend">
+          {unit !== requested && `Raised to ${formatMRRAbbreviated(unit)} to fit. `}
+          {underUnit} {underUnit === 1 ? 'company makes' : 'companies make'} under {formatMRRAbbreviated(unit)} / mo and{' '}
+          {underUnit === 1 ? 'is' : 'are'} drawn as one pixel
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import type { Company } from '../lib/companies';
+import { useQueryParam } from '../lib/query';
+import { searchByName } from '../lib/search';
+
+export interface SearchState {
+  query: string;
+  /** Slugs of matching companies, or null when there is no query. */
+  matches: Set<string> | null;
+  /** Best match, scrolled into view. */
+  best: string | null;
+}
+
+/** Search state from the `?q=` query parameter, matched against `companies`. */
+export function useSearch(companies: readonly Company[]): SearchState {
+  const [query] = useQueryParam('q');
+
+  return useMemo(() => {
+    if (!query?.trim()) return { query: '', matches: null, best: null };
+    const found = searchByName(query, companies);
+    return { query, matches: new Set(found.map((c) => c.slug)), best: found[0]?.slug ?? null };
+  }, [query, companies]);
+}
+
+/** Class for an element of `slug` under the current search: highlighted, dimmed or neither. */
+export function searchClass(search: SearchState, slug: string): string {
+  if (!search.matches) return '';
+  return search.matches.has(slug) ? 'is-match' : 'is-dimmed';
+}
+
+/** Class for a tile standing in for several companies: highlighted when any of them matches. */
+export function groupSearchClass(search: SearchState, companies: readonly Company[]): string {
+  if (!search.matches) return '';
+  return companies.some((c) => search.matches?.has(c.slug)) ? 'is-match' : 'is-dimmed';
+}
+
+/** Scrolls the element tagged `data-slug={slug}` into view whenever the best match changes. */
+export function useScrollToMatch(slug: string | null) {
+  useEffect(() => {
+    if (!slug) return;
+    const el = document.querySelector(`[data-slug="${CSS.escape(slug)}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, [slug]);
+}
+
+export default function SearchBox() {
+  const [query, setQuery] = useQueryParam('q');
+
+  return (
+    <input
+      type="search"
+      className="search-box"
+      placeholder="Find a startup…"
+      aria-label="Find a startup by name"
+      value={query ?? ''}
+      onChange={(e) => setQuery(e.target.value)}
+    />
+  );
+}
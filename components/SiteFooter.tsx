@@ -0,0 +1,23 @@
+export default function SiteFooter() {
+  return (
+    <footer className="site-footer">
+      <div className="site-footer-inner">
+        <div className="footer-copy">
+          Data taken from{' '}
+          <a href="https://trustmrr.com?ref=gridmrr" target="_blank" rel="noreferrer">
+            TrustMRR
+          </a>
+          . GridMRR is not affiliated with, endorsed by, or partnered with TrustMRR. Created by{' '}
+          <a href="https://x.com/leonagano" target="_blank" rel="noreferrer">
+            Leo
+          </a>
+          . Approved by{' '}
+          <a href="https://x.com/marclou" target="_blank" rel="noreferrer">
+            Marc
+          </a>
+          ?
+        </div>
+      </div>
+    </footer>
+  );
+}
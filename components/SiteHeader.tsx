@@ -0,0 +1,45 @@
+import type React from 'react';
+import { VIEWS, viewHref, type SnapshotNav, type ViewId } from '../lib/routes';
+import FilterPanel from './FilterPanel';
+import SearchBox from './SearchBox';
+import SnapshotSlider from './SnapshotSlider';
+
+interface SiteHeaderProps {
+  /** Current view, left out of the nav. Pages outside the four views omit it. */
+  view?: ViewId;
+  /** Omit on pages not tied to one snapshot; the nav then points at the latest data and no slider shows. */
+  snapshot?: SnapshotNav;
+  subtitle?: React.ReactNode;
+  /** View-specific controls shown next to the date slider. */
+  actions?: React.ReactNode;
+}
+
+export default function SiteHeader({ view, snapshot, subtitle, actions }: SiteHeaderProps) {
+  return (
+    <header className="site-header">
+      <div className="site-header-inner">
+        <div>
+          <div className="site-title">GridMRR</div>
+          <div className="site-nav">
+            {VIEWS.filter((v) => v.id !== view).map((v) => (
+              <a
+                key={v.id}
+                href={viewHref(v.id, snapshot?.date ?? null, snapshot?.dates ?? [])}
+                className="site-nav-link"
+              >
+                {v.label}
+              </a>
+            ))}
+          </div>
+          {subtitle && <div className="site-subtitle">{subtitle}</div>}
+          {view && <FilterPanel />}
+        </div>
+        <div className="site-header-controls">
+          {view && <SearchBox />}
+          {actions}
+          {view && snapshot && <SnapshotSlider view={view} snapshot={snapshot} />}
+        </div>
+      </div>
+    </header>
+  );
+}
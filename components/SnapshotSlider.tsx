@@ -0,0 +1,55 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { viewHref, type SnapshotNav, type ViewId } from '../lib/routes';
+
+interface SnapshotSliderProps {
+  view: ViewId;
+  snapshot: SnapshotNav;
+}
+
+// Date slider that switches the current view between snapshots
+export default function SnapshotSlider({ view, snapshot }: SnapshotSliderProps) {
+  const router = useRouter();
+  const { date, dates } = snapshot;
+  const currentIndex = date ? dates.indexOf(date) : dates.length - 1;
+  const [index, setIndex] = useState(currentIndex);
+
+  useEffect(() => {
+    setIndex(currentIndex);
+  }, [currentIndex]);
+
+  if (dates.length === 0) {
+    return null;
+  }
+
+  // Navigate once the thumb is released, not on every step while dragging.
+  // The query string (colour mode, ...) carries over to the other snapshot.
+  function commit() {
+    if (index !== currentIndex) {
+      router.push(`${viewHref(view, dates[index], dates)}${window.location.search}`);
+    }
+  }
+
+  return (
+    <label className="snapshot-slider">
+      <span className="snapshot-slider-label">
+        Snapshot <strong>{dates[index]}</strong>
+        {index === dates.length - 1 && ' (latest)'}
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={dates.length - 1}
+        step={1}
+        value={index}
+        disabled={dates.length < 2}
+        onChange={(e) => setIndex(Number(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        aria-valuetext={dates[index]}
+      />
+    </label>
+  );
+}
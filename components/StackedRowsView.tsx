@@ -0,0 +1,100 @@
+'use client';
+
+import type React from 'react';
+import { companyBackground } from '../lib/colors';
+import { getMaxMrr, type Company } from '../lib/companies';
+import { stackedRowsSvg } from '../lib/export';
+import { formatGrowth, formatMRR } from '../lib/format';
+import { companyHref, type SnapshotNav } from '../lib/routes';
+import ColorModeControl, { useColorMode } from './ColorModeControl';
+import ExportMenu from './ExportMenu';
+import { useCompanyFilter } from './FilterPanel';
+import HoverCard, { hoverHandlers, useHoverController } from './HoverCard';
+import { searchClass, useScrollToMatch, useSearch } from './SearchBox';
+import SiteFooter from './SiteFooter';
+import SiteHeader from './SiteHeader';
+
+interface StackedRowsViewProps {
+  companies: readonly Company[];
+  snapshot: SnapshotNav;
+}
+
+export default function StackedRowsView({ companies, snapshot }: StackedRowsViewProps) {
+  const { filtered } = useCompanyFilter(companies);
+  const maxMRR = getMaxMrr(filtered);
+  const [colorMode] = useColorMode();
+  const search = useSearch(filtered);
+  useScrollToMatch(search.best);
+  const hover = useHoverController();
+
+  return (
+    <>
+      <SiteHeader
+        view="stacked-rows"
+        snapshot={snapshot}
+        subtitle="Stacked Rows Visualization"
+        actions={
+          <>
+            <ColorModeControl />
+            <ExportMenu view="stacked-rows" date={snapshot.date} buildSvg={(frame) => stackedRowsSvg(filtered, colorMode, frame)} />
+          </>
+        }
+      />
+
+      <main className="app-shell">
+        <section className="app-main">
+          {filtered.length === 0 && <div className="empty-state">No companies match these filters.</div>}
+          <div className="stacked-rows-container">
+            {filtered.map((company) => {
+              // Non‑linear scaling to make differences more visible in the long tail
+              // We keep ordering and monotonicity, but compress the very top end
+              const scale = 3.0;
+              const power = 0.25; // 1/4 power – boosts low MRR while flattening the highest values
+              const normalizedMRR = company.mrr / maxMRR;
+              const scaledMRR = Math.pow(normalizedMRR, power);
+              const widthPercent = scaledMRR * 100 * scale;
+              
+              // Get colorful gradient background
+              const bg = companyBackground(company, colorMode);
+              
+              const isZeroMRR = company.mrr === 0;
+              
+              return (
+                <a
+                  key={company.link}
+                  href={companyHref(company.slug)}
+                  className={`stacked-row ${searchClass(search, company.slug)}`}
+                  data-slug={company.slug}
+                  style={{
+                    width: `${widthPercent}%`,
+                    background: bg,
+                  }}
+                  {...hoverHandlers(hover, company)}
+                >
+                  <div className="stacked-row-content">
+                    {company.logo && (
+                      <div className="stacked-row-logo">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={company.logo} alt={company.name} />
+                      </div>
+                    )}
+                    <div className="stacked-row-name">{company.name}</div>
+                    {!isZeroMRR && (
+                      <div className="stacked-row-mrr">{formatMRR(company.mrr)}</div>
+                    )}
+                    <div className="stacked-row-growth">{formatGrowth(company.mom_growth)}</div>
+                  </div>
+                </a>
+              );
+            })}
+          </div>
+          <HoverCard controller={hover} ranking={companies} />
+        </section>
+      </main>
+
+      <SiteFooter />
+
+    </>
+  );
+}
+
@@ -0,0 +1,88 @@
+import type React from 'react';
+import { pickGradient } from '../lib/colors';
+import type { Company } from '../lib/companies';
+import { formatGrowth, formatMRR, formatMRRAbbreviated } from '../lib/format';
+import { companyHref } from '../lib/routes';
+import type { TreemapRect } from '../lib/treemap';
+import type { HoverHandlers } from './HoverCard';
+
+const TILE_GAP_PX = 2;
+
+// Size tiers (shorter side on screen, in CSS px) that decide how much each card shows
+const COMPACT_TILE_SIDE = 96;
+const MINIMAL_TILE_SIDE = 40;
+const TINY_TILE_SIDE = 20;
+
+/** Absolute position of a tile drawn at `rect` (in %), leaving a gap to its neighbours. */
+export function tilePosition(rect: TreemapRect): React.CSSProperties {
+  return {
+    position: 'absolute',
+    left: `${rect.x}%`,
+    top: `${rect.y}%`,
+    width: `max(0px, calc(${rect.width}% - ${TILE_GAP_PX}px))`,
+    height: `max(0px, calc(${rect.height}% - ${TILE_GAP_PX}px))`,
+  };
+}
+
+interface TreemapCardProps {
+  company: Company;
+  /** Where to draw the card, in % of the treemap grid. */
+  rect: TreemapRect;
+  /** On-screen size in px that picks the label tier. Animations pass the final size, zooming the zoomed one. */
+  size: { width: number; height: number };
+  background?: string;
+  className?: string;
+  style?: React.CSSProperties;
+  /** Where the card links; defaults to the company page. External links open in a new tab. */
+  href?: string;
+  /** Hover card handlers; without them the card falls back to a native tooltip. */
+  hover?: HoverHandlers;
+}
+
+export default function TreemapCard({
+  company,
+  rect,
+  size,
+  background = pickGradient(company.rank - 1),
+  className = '',
+  style,
+  href = companyHref(company.slug),
+  hover,
+}: TreemapCardProps) {
+  const tileSide = Math.min(size.width, size.height);
+  const isCompact = tileSide < COMPACT_TILE_SIDE;
+  const isMinimal = tileSide < MINIMAL_TILE_SIDE;
+  const isTiny = tileSide < TINY_TILE_SIDE;
+
+  const cardStyle: React.CSSProperties = { ...tilePosition(rect), background, ...style };
+  const isExternal = /^https?:/.test(href);
+
+  return (
+    <a
+      href={href}
+      target={isExternal ? '_blank' : undefined}
+      rel={isExternal ? 'noopener noreferrer' : undefined}
+      className={`treemap-card ${isCompact ? 'treemap-card-compact' : ''} ${isMinimal ? 'treemap-card-minimal' : ''} ${isTiny ? 'treemap-card-tiny' : ''} ${className}`}
+      style={cardStyle}
+      data-slug={company.slug}
+      title={hover ? undefined : `${company.name} — ${formatMRR(company.mrr)} / mo`}
+      {...hover}
+    >
+      {!isTiny && (
+        <div className="treemap-card-inner">
+          <div className="treemap-card-header">
+            {company.logo && (
+              <div className="treemap-logo-wrapper">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={company.logo} alt={company.name} className="treemap-logo" />
+              </div>
+            )}
+            {!isMinimal && <div className="treemap-mrr">{formatMRRAbbreviated(company.mrr)}</div>}
+          </div>
+          {!isCompact && <div className="treemap-name">{company.name}</div>}
+          {!isCompact && <div className="treemap-growth">{formatGrowth(company.mom_growth)} MoM</div>}
+        </div>
+      )}
+    </a>
+  );
+}
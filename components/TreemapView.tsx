@@ -0,0 +1,368 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { groupByCategory, type CategoryGroup } from '../lib/categories';
+import { companyBackground, othersBackground, type ColorMode } from '../lib/colors';
+import { getTotalMrr, type Company } from '../lib/companies';
+import { categoryTreemapSvg, treemapSvg } from '../lib/export';
+import { applyFilter } from '../lib/filters';
+import { formatGrowth, formatMRR, formatMRRAbbreviated, formatShare } from '../lib/format';
+import { groupLongTail, isOthersGroup, type LongTailItem } from '../lib/others';
+import type { SnapshotNav } from '../lib/routes';
+import { useElementSize, type ElementSize } from '../lib/resize';
+import {
+  buildNestedTreemap,
+  buildPercentTreemap,
+  buildTreemapTransition,
+  toPercent,
+  type NestedTreemapGroup,
+  type TreemapRect,
+} from '../lib/treemap';
+import { centerOn, IDENTITY_ZOOM, isOnScreen, zoomRect, type Zoom } from '../lib/zoom';
+import ColorModeControl, { useColorMode } from './ColorModeControl';
+import EmbedMenu from './EmbedMenu';
+import ExportMenu from './ExportMenu';
+import { useCompanyFilter } from './FilterPanel';
+import GroupByControl, { useGroupBy } from './GroupByControl';
+import HoverCard, { hoverHandlers, useHoverController, type HoverController } from './HoverCard';
+import LongTailControl, { useLongTail, visibleSlug } from './LongTailControl';
+import OthersCard from './OthersCard';
+import { groupSearchClass, searchClass, useScrollToMatch, useSearch, type SearchState } from './SearchBox';
+import SiteFooter from './SiteFooter';
+import SiteHeader from './SiteHeader';
+import TreemapCard, { tilePosition } from './TreemapCard';
+import TreemapZoomControls, { useTreemapZoom } from './TreemapZoom';
+
+// Tiles are laid out for the grid's measured size and positioned in % of it
+const DEFAULT_LAYOUT_SIZE: ElementSize = { width: 1440, height: 800 }; // until measured, e.g. in the prerendered HTML
+const MIN_TILE_SIDE = 1; // px unzoomed; smaller tiles are reported as too small
+const MIN_TILE_PX = 1; // tiles are drawn once zooming makes their shorter side at least this big
+const TRANSITION_MS = 1200; // keep in sync with .treemap-grid-animating
+const GROUP_HEADER_PX = 22; // category label strip, unzoomed
+const GROUP_PADDING_PX = 3;
+const MIN_HEADER_LABEL_PX = 14; // narrower strips keep their totals in the frame's tooltip
+
+type TransitionPhase = 'from' | 'to';
+
+interface TreemapViewProps {
+  companies: readonly Company[];
+  snapshot: SnapshotNav;
+  /** Snapshot before this one, if any; enables the animated transition. */
+  previous?: { date: string | null; companies: readonly Company[] } | null;
+}
+
+interface TileProps {
+  item: LongTailItem;
+  /** Where to draw the tile on screen, in % of the grid. */
+  rect: TreemapRect;
+  /** On-screen size in px, for the card's label tier. */
+  size: ElementSize;
+  colorMode: ColorMode;
+  search: SearchState;
+  hover: HoverController;
+  onOpenOthers: () => void;
+  style?: React.CSSProperties;
+}
+
+function Tile({ item, rect, size, colorMode, search, hover, onOpenOthers, style }: TileProps) {
+  if (isOthersGroup(item)) {
+    return (
+      <OthersCard
+        group={item}
+        rect={rect}
+        background={othersBackground(item.mom_growth, colorMode)}
+        className={groupSearchClass(search, item.companies)}
+        style={style}
+        onOpen={onOpenOthers}
+        hover={hoverHandlers(hover, item)}
+      />
+    );
+  }
+  return (
+    <TreemapCard
+      company={item}
+      rect={rect}
+      size={size}
+      background={companyBackground(item, colorMode)}
+      className={searchClass(search, item.slug)}
+      style={style}
+      hover={hoverHandlers(hover, item)}
+    />
+  );
+}
+
+interface GroupFrameProps {
+  layout: NestedTreemapGroup<CategoryGroup, Company>;
+  /** MRR of every grouped company, for the group's share. */
+  total: number;
+  zoom: Zoom;
+  pixelSize: (rect: TreemapRect) => ElementSize;
+}
+
+/** A category's outline and its header with the group totals; drawn under the tiles. */
+function GroupFrame({ layout, total, zoom, pixelSize }: GroupFrameProps) {
+  const rect = zoomRect(layout.rect, zoom);
+  if (!isOnScreen(rect)) return null;
+  const { category, key, mrr, mom_growth, companies } = layout.group;
+  const header = layout.header && zoomRect(layout.header, zoom);
+  const count = `${companies.length} ${companies.length === 1 ? 'company' : 'companies'}`;
+  const share = formatShare(total > 0 ? mrr / total : 0, 1);
+  const growth = `${formatGrowth(mom_growth)} MoM`;
+
+  return (
+    <>
+      <div
+        className="treemap-group"
+        style={tilePosition(rect)}
+        data-category={key}
+        title={`${category}: ${formatMRR(mrr)} / mo · ${share} of MRR · ${count} · ${growth}`}
+      />
+      {header && pixelSize(header).height >= MIN_HEADER_LABEL_PX && isOnScreen(header) && (
+        <div className="treemap-group-header" style={tilePosition(header)}>
+          <span className="treemap-group-name">{category}</span>
+          <span className="treemap-group-stats">
+            {formatMRRAbbreviated(mrr)} · {share} · {count} · {growth}
+          </span>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Entering tiles grow from the centre of their final rect, leaving tiles shrink into theirs
+function collapse(rect: TreemapRect): TreemapRect {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2, width: 0, height: 0 };
+}
+
+export default function TreemapView({ companies, snapshot, previous = null }: TreemapViewProps) {
+  const { filter, filtered } = useCompanyFilter(companies);
+  const { items, others, threshold, drilled, setDrilled } = useLongTail(filtered);
+  const shown: readonly LongTailItem[] = drilled && others ? others.companies : items;
+  const gridRef = useRef<HTMLDivElement>(null);
+  const gridSize = useElementSize(gridRef);
+  const layoutSize = gridSize && gridSize.width > 0 && gridSize.height > 0 ? gridSize : DEFAULT_LAYOUT_SIZE;
+  const [groupBy] = useGroupBy(companies);
+
+  // By category, every company is laid out inside its category: the long tail is not folded into Others
+  const grouped = groupBy === 'category' ? (drilled && others ? others.companies : filtered) : null;
+  const categoryLayout = useMemo(() => {
+    if (!grouped) return null;
+    const { width, height } = layoutSize;
+    const percent = <R extends TreemapRect>(rect: R) => toPercent(rect, width, height);
+    return buildNestedTreemap(groupByCategory(grouped), (group) => group.companies, width, height, {
+      headerHeight: GROUP_HEADER_PX,
+      padding: GROUP_PADDING_PX,
+      minSide: MIN_TILE_SIDE,
+    }).map((layout) => ({
+      ...layout,
+      rect: percent(layout.rect),
+      header: layout.header && percent(layout.header),
+      nodes: layout.nodes.map(percent),
+      tooSmall: layout.tooSmall.map(percent),
+    }));
+  }, [grouped, layoutSize]);
+
+  const groupedTotal = useMemo(() => getTotalMrr(grouped ?? []), [grouped]);
+
+  const { nodes: treemapNodes, tooSmall } = useMemo(
+    () =>
+      categoryLayout
+        ? {
+            nodes: categoryLayout.flatMap((layout) => layout.nodes),
+            tooSmall: categoryLayout.flatMap((layout) => layout.tooSmall),
+          }
+        : buildPercentTreemap(shown, layoutSize.width, layoutSize.height, { minSide: MIN_TILE_SIDE }),
+    [categoryLayout, shown, layoutSize],
+  );
+  const zoomableNodes = useMemo(
+    () => [...treemapNodes, ...tooSmall.filter((node) => node.width > 0 && node.height > 0)],
+    [treemapNodes, tooSmall],
+  );
+
+  // Matched by slug under the same filter and grouping; the last frame is the regular layout
+  const transitionTiles = useMemo(() => {
+    if (!previous || drilled || groupBy) return null;
+    const { width, height } = layoutSize;
+    const tiles = buildTreemapTransition(
+      groupLongTail(applyFilter(previous.companies, filter), threshold).items,
+      items,
+      width,
+      height,
+    );
+    return tiles.map((tile) => ({
+      ...tile,
+      from: tile.from && toPercent(tile.from, width, height),
+      to: tile.to && toPercent(tile.to, width, height),
+    }));
+  }, [previous, drilled, groupBy, filter, threshold, items, layoutSize]);
+
+  const [colorMode] = useColorMode();
+  const search = useSearch(filtered);
+  // By category every company has its own tile; otherwise a long-tail match is inside the Others tile
+  const matchSlug = drilled || grouped ? search.best : visibleSlug(search.best, others);
+  useScrollToMatch(matchSlug);
+  const hover = useHoverController();
+  const [zoom, setZoom] = useTreemapZoom(gridRef);
+
+  // Zoomed in, tiles out of view are not rendered at all, so bring the match to the middle instead
+  useEffect(() => {
+    const node = matchSlug ? zoomableNodes.find((n) => n.slug === matchSlug) : undefined;
+    if (!node) return;
+    setZoom((current) =>
+      current.scale > 1 ? centerOn(current, node.x + node.width / 2, node.y + node.height / 2) : current,
+    );
+  }, [matchSlug, zoomableNodes, setZoom]);
+
+  // A new set of tiles is a new layout; start it fully zoomed out
+  useEffect(() => setZoom(IDENTITY_ZOOM), [shown, groupBy, setZoom]);
+
+  const [phase, setPhase] = useState<TransitionPhase | null>(null);
+  const frameRef = useRef(0);
+  const timerRef = useRef(0);
+
+  // While a transition plays the grid shows its layouts, which the minimap has to match
+  const minimapNodes = useMemo(
+    () =>
+      phase && transitionTiles
+        ? transitionTiles.flatMap((tile) => (tile.to ? [{ ...tile.item, ...tile.to }] : []))
+        : treemapNodes,
+    [phase, transitionTiles, treemapNodes],
+  );
+
+  // Label tiers follow a tile's size on screen, so zooming in reveals names
+  const pixelSize = (rect: TreemapRect): ElementSize => ({
+    width: (rect.width / 100) * layoutSize.width,
+    height: (rect.height / 100) * layoutSize.height,
+  });
+
+  useEffect(
+    () => () => {
+      cancelAnimationFrame(frameRef.current);
+      window.clearTimeout(timerRef.current);
+    },
+    [],
+  );
+
+  function playTransition() {
+    cancelAnimationFrame(frameRef.current);
+    window.clearTimeout(timerRef.current);
+    setZoom(IDENTITY_ZOOM);
+    setPhase('from');
+    // Wait two frames so the starting layout is painted before the transition kicks in
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = requestAnimationFrame(() => {
+        setPhase('to');
+        // Then back to the regular, culled tiles, so zooming and resizing are not animated
+        timerRef.current = window.setTimeout(() => setPhase(null), TRANSITION_MS);
+      });
+    });
+  }
+
+  const subtitle = tooSmall.length > 0 ? `${tooSmall.length} companies are too small to draw at this size` : undefined;
+  const actions = (
+    <>
+      <ColorModeControl />
+      <GroupByControl companies={companies} />
+      {(!groupBy || drilled) && <LongTailControl others={others} drilled={drilled} onExit={() => setDrilled(false)} />}
+      <ExportMenu
+        view="treemap"
+        date={snapshot.date}
+        buildSvg={(frame) =>
+          grouped ? categoryTreemapSvg(groupByCategory(grouped), colorMode, frame) : treemapSvg(shown, colorMode, frame)
+        }
+      />
+      <EmbedMenu companies={companies} colorMode={colorMode} />
+      {previous && transitionTiles && (
+        <button type="button" className="header-action" onClick={playTransition}>
+          ▶ Animate from {previous.date}
+        </button>
+      )}
+    </>
+  );
+
+  return (
+    <>
+      <SiteHeader view="treemap" snapshot={snapshot} subtitle={subtitle} actions={actions} />
+
+      <main className="app-shell">
+        <section className="app-main">
+          <div className="treemap-root">
+            {filtered.length === 0 && <div className="empty-state">No companies match these filters.</div>}
+            <div
+              ref={gridRef}
+              className={[
+                'treemap-grid',
+                phase === 'to' ? 'treemap-grid-animating' : '',
+                zoom.scale > 1 ? 'treemap-grid-zoomed' : '',
+              ].join(' ')}
+            >
+              {categoryLayout?.map((layout) => (
+                <GroupFrame
+                  key={layout.group.key}
+                  layout={layout}
+                  total={groupedTotal}
+                  zoom={zoom}
+                  pixelSize={pixelSize}
+                />
+              ))}
+              {phase && transitionTiles
+                ? transitionTiles.map((tile) => {
+                    const isVisible = phase === 'from' ? tile.from !== null : tile.to !== null;
+                    const rect =
+                      phase === 'from'
+                        ? tile.from ?? collapse(tile.to as TreemapRect)
+                        : tile.to ?? collapse(tile.from as TreemapRect);
+
+                    return (
+                      <Tile
+                        key={tile.key}
+                        item={tile.item}
+                        rect={zoomRect(rect, zoom)}
+                        size={pixelSize(zoomRect(tile.to ?? tile.from ?? rect, zoom))}
+                        colorMode={colorMode}
+                        search={search}
+                        hover={hover}
+                        onOpenOthers={() => setDrilled(true)}
+                        style={{ opacity: isVisible ? 1 : 0, pointerEvents: isVisible ? undefined : 'none' }}
+                      />
+                    );
+                  })
+                : zoomableNodes.map((node) => {
+                    const rect = zoomRect(node, zoom);
+                    const size = pixelSize(rect);
+                    // Tiles out of view or under a pixel are not rendered at all
+                    if (!isOnScreen(rect) || Math.min(size.width, size.height) < MIN_TILE_PX) return null;
+                    return (
+                      <Tile
+                        key={node.slug}
+                        item={node}
+                        rect={rect}
+                        size={size}
+                        colorMode={colorMode}
+                        search={search}
+                        hover={hover}
+                        onOpenOthers={() => setDrilled(true)}
+                      />
+                    );
+                  })}
+            </div>
+            {gridSize && gridSize.width > 0 && (
+              <TreemapZoomControls
+                nodes={minimapNodes}
+                colorMode={colorMode}
+                zoom={zoom}
+                aspect={gridSize.height / gridSize.width}
+                onChange={setZoom}
+              />
+            )}
+          </div>
+          <HoverCard controller={hover} ranking={companies} />
+        </section>
+      </main>
+
+      <SiteFooter />
+
+    </>
+  );
+}
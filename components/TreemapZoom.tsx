@@ -0,0 +1,216 @@
+'use client';
+
+import type React from 'react';
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { companyColor, othersColor, type ColorMode } from '../lib/colors';
+import { isOthersGroup, type LongTailItem } from '../lib/others';
+import type { TreemapNode } from '../lib/treemap';
+import { centerOn, IDENTITY_ZOOM, panBy, visibleArea, zoomAround, type Zoom } from '../lib/zoom';
+
+const WHEEL_ZOOM_SPEED = 0.002; // zoom factor per wheel pixel, exponential so it feels even at any scale
+const BUTTON_ZOOM_FACTOR = 2;
+const DRAG_THRESHOLD_PX = 4; // pointer travel before a press counts as a pan rather than a click
+const MINIMAP_WIDTH = 180;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Sets the zoom, or derives it from the latest one (which may not have rendered yet). */
+type SetZoom = (zoom: Zoom | ((current: Zoom) => Zoom)) => void;
+
+/**
+ * Scroll-wheel and pinch zoom plus drag panning for the element behind
+ * `ref`. The wheel is left to the page unless it zooms in or the view is
+ * already zoomed. Updates are batched to one per frame. A press that turned into a
+ * pan swallows its click, so dragging across a tile does not open it.
+ */
+export function useTreemapZoom(ref: RefObject<HTMLElement>): [Zoom, SetZoom] {
+  const [zoom, setZoomState] = useState<Zoom>(IDENTITY_ZOOM);
+  const zoomRef = useRef<Zoom>(IDENTITY_ZOOM);
+  const frameRef = useRef(0);
+
+  const setZoom = useCallback<SetZoom>((next) => {
+    zoomRef.current = typeof next === 'function' ? next(zoomRef.current) : next;
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => setZoomState(zoomRef.current));
+  }, []);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return undefined;
+    const pointers = new Map<number, Point>();
+    let dragged = false;
+    let travel = 0;
+
+    // Client coordinates to % of the element
+    const toPercent = (p: Point): Point => {
+      const bounds = el.getBoundingClientRect();
+      return { x: ((p.x - bounds.left) / bounds.width) * 100, y: ((p.y - bounds.top) / bounds.height) * 100 };
+    };
+
+    function onWheel(e: WheelEvent) {
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      // Fully zoomed out, scrolling down scrolls the page; trackpad pinches come with ctrlKey set
+      if (zoomRef.current.scale <= 1 && delta >= 0 && !e.ctrlKey) return;
+      e.preventDefault();
+      const at = toPercent({ x: e.clientX, y: e.clientY });
+      setZoom(zoomAround(zoomRef.current, Math.exp(-delta * WHEEL_ZOOM_SPEED), at.x, at.y));
+    }
+
+    function onPointerDown(e: PointerEvent) {
+      if (e.pointerType === 'mouse' && e.button !== 0) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 1) {
+        dragged = false;
+        travel = 0;
+      }
+    }
+
+    function onPointerMove(e: PointerEvent) {
+      const previous = pointers.get(e.pointerId);
+      if (!previous) return;
+      const current = { x: e.clientX, y: e.clientY };
+      const bounds = el!.getBoundingClientRect();
+
+      if (pointers.size >= 2) {
+        // Pinch: scale by the change in finger spread around their midpoint, and pan with the midpoint
+        const [a, b] = Array.from(pointers.entries()).map(([id, p]) => (id === e.pointerId ? current : p));
+        const [a0, b0] = Array.from(pointers.values());
+        const spread = Math.hypot(a.x - b.x, a.y - b.y);
+        const spread0 = Math.hypot(a0.x - b0.x, a0.y - b0.y);
+        const mid = toPercent({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+        const mid0 = toPercent({ x: (a0.x + b0.x) / 2, y: (a0.y + b0.y) / 2 });
+        const zoomed = spread0 > 0 ? zoomAround(zoomRef.current, spread / spread0, mid.x, mid.y) : zoomRef.current;
+        setZoom(panBy(zoomed, mid.x - mid0.x, mid.y - mid0.y));
+        dragged = true;
+      } else {
+        travel += Math.hypot(current.x - previous.x, current.y - previous.y);
+        if (travel > DRAG_THRESHOLD_PX) {
+          if (!dragged) el!.setPointerCapture(e.pointerId);
+          dragged = true;
+          const dx = ((current.x - previous.x) / bounds.width) * 100;
+          const dy = ((current.y - previous.y) / bounds.height) * 100;
+          setZoom(panBy(zoomRef.current, dx, dy));
+        }
+      }
+      pointers.set(e.pointerId, current);
+    }
+
+    function onPointerUp(e: PointerEvent) {
+      pointers.delete(e.pointerId);
+    }
+
+    function onClick(e: MouseEvent) {
+      if (!dragged) return;
+      dragged = false;
+      e.preventDefault();
+      e.stopPropagation();
+    }
+
+    el.addEventListener('wheel', onWheel, { passive: false });
+    el.addEventListener('pointerdown', onPointerDown);
+    el.addEventListener('pointermove', onPointerMove);
+    el.addEventListener('pointerup', onPointerUp);
+    el.addEventListener('pointercancel', onPointerUp);
+    el.addEventListener('click', onClick, true);
+    return () => {
+      cancelAnimationFrame(frameRef.current);
+      el.removeEventListener('wheel', onWheel);
+      el.removeEventListener('pointerdown', onPointerDown);
+      el.removeEventListener('pointermove', onPointerMove);
+      el.removeEventListener('pointerup', onPointerUp);
+      el.removeEventListener('pointercancel', onPointerUp);
+      el.removeEventListener('click', onClick, true);
+    };
+  }, [ref, setZoom]);
+
+  return [zoom, setZoom];
+}
+
+function itemColor(item: LongTailItem, colorMode: ColorMode): string {
+  return isOthersGroup(item) ? othersColor(item.mom_growth, colorMode) : companyColor(item, colorMode);
+}
+
+interface TreemapZoomControlsProps {
+  nodes: readonly TreemapNode<LongTailItem>[];
+  colorMode: ColorMode;
+  zoom: Zoom;
+  /** Container height over width, so the minimap keeps its shape. */
+  aspect: number;
+  onChange: (zoom: Zoom) => void;
+}
+
+/** The whole treemap in miniature with the part in view outlined; click or drag to move there. */
+function Minimap({ nodes, colorMode, zoom, aspect, onChange }: TreemapZoomControlsProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const height = Math.round(MINIMAP_WIDTH * aspect);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = Math.min(window.devicePixelRatio || 1, 2);
+    canvas.width = MINIMAP_WIDTH * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform((MINIMAP_WIDTH * dpr) / 100, 0, 0, (height * dpr) / 100, 0, 0);
+    for (const node of nodes) {
+      ctx.fillStyle = itemColor(node, colorMode);
+      ctx.fillRect(node.x, node.y, node.width, node.height);
+    }
+  }, [nodes, colorMode, height]);
+
+  function moveTo(e: React.PointerEvent<HTMLDivElement>) {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    onChange(centerOn(zoom, x, y));
+  }
+
+  const view = visibleArea(zoom);
+  return (
+    <div
+      className="treemap-minimap"
+      style={{ width: MINIMAP_WIDTH, height }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveTo(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.buttons) moveTo(e);
+      }}
+    >
+      <canvas ref={canvasRef} style={{ width: MINIMAP_WIDTH, height }} aria-hidden="true" />
+      <div
+        className="treemap-minimap-view"
+        style={{ left: `${view.x}%`, top: `${view.y}%`, width: `${view.width}%`, height: `${view.height}%` }}
+      />
+    </div>
+  );
+}
+
+/** Zoom buttons, plus the minimap while zoomed in. Sits over the treemap grid. */
+export default function TreemapZoomControls(props: TreemapZoomControlsProps) {
+  const { zoom, onChange } = props;
+  const zoomBy = (factor: number) => onChange(zoomAround(zoom, factor, 50, 50));
+
+  return (
+    <>
+      <div className="color-mode-toggle treemap-zoom-controls" role="group" aria-label="Zoom">
+        <button type="button" aria-label="Zoom out" onClick={() => zoomBy(1 / BUTTON_ZOOM_FACTOR)}>
+          −
+        </button>
+        <button type="button" aria-label="Zoom in" onClick={() => zoomBy(BUTTON_ZOOM_FACTOR)}>
+          +
+        </button>
+        {zoom.scale > 1 && (
+          <button type="button" onClick={() => onChange(IDENTITY_ZOOM)}>
+            Reset
+          </button>
+        )}
+      </div>
+      {zoom.scale > 1 && <Minimap {...props} />}
+    </>
+  );
+}
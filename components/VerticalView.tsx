@@ -0,0 +1,109 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { companyBackground } from '../lib/colors';
+import { getMaxMrr, type Company } from '../lib/companies';
+import { verticalSvg } from '../lib/export';
+import { formatMRR } from '../lib/format';
+import { companyHref, type SnapshotNav } from '../lib/routes';
+import ColorModeControl, { useColorMode } from './ColorModeControl';
+import ExportMenu from './ExportMenu';
+import { useCompanyFilter } from './FilterPanel';
+import HoverCard, { hoverHandlers, useHoverController } from './HoverCard';
+import { searchClass, useScrollToMatch, useSearch } from './SearchBox';
+import SiteFooter from './SiteFooter';
+import SiteHeader from './SiteHeader';
+
+interface VerticalViewProps {
+  companies: readonly Company[];
+  snapshot: SnapshotNav;
+}
+
+export default function VerticalView({ companies, snapshot }: VerticalViewProps) {
+  const { filtered } = useCompanyFilter(companies);
+  const maxMRR = getMaxMrr(filtered);
+  const [colorMode] = useColorMode();
+  const search = useSearch(filtered);
+  useScrollToMatch(search.best);
+  const hover = useHoverController();
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const updateHeight = () => {
+      setViewportHeight(window.innerHeight - 140); // Account for header
+    };
+    
+    updateHeight();
+    window.addEventListener('resize', updateHeight);
+    return () => window.removeEventListener('resize', updateHeight);
+  }, []);
+
+  return (
+    <>
+      <SiteHeader
+        view="vertical"
+        snapshot={snapshot}
+        subtitle="Vertical Bars Visualization"
+        actions={
+          <>
+            <ColorModeControl />
+            <ExportMenu view="vertical" date={snapshot.date} buildSvg={(frame) => verticalSvg(filtered, colorMode, frame)} />
+          </>
+        }
+      />
+
+      <main className="app-shell">
+        <section className="app-main">
+          {filtered.length === 0 && <div className="empty-state">No companies match these filters.</div>}
+          <div className="vertical-bars-container">
+            {filtered.map((company) => {
+              // Calculate height as percentage of max MRR
+              // Use square root scaling to make differences more visible in lower ranges
+              const normalizedMRR = company.mrr / maxMRR;
+              const scaledMRR = Math.pow(normalizedMRR, 0.25); // 1/4 power for better visibility
+              const heightPercent = scaledMRR * 100;
+              
+              // Get colorful gradient background
+              const bg = companyBackground(company, colorMode, 180);
+              
+              const isZeroMRR = company.mrr === 0;
+              
+              return (
+                <a
+                  key={company.link}
+                  href={companyHref(company.slug)}
+                  className={`vertical-bar ${searchClass(search, company.slug)}`}
+                  data-slug={company.slug}
+                  style={{
+                    height: viewportHeight > 0 ? `${heightPercent}%` : '0%',
+                    background: bg,
+                  }}
+                  {...hoverHandlers(hover, company)}
+                >
+                  <div className="vertical-bar-content">
+                    {company.logo && (
+                      <div className="vertical-bar-logo">
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={company.logo} alt={company.name} />
+                      </div>
+                    )}
+                    <div className="vertical-bar-name">{company.name}</div>
+                    {!isZeroMRR && (
+                      <div className="vertical-bar-mrr">{formatMRR(company.mrr)}</div>
+                    )}
+                  </div>
+                </a>
+              );
+            })}
+          </div>
+          <HoverCard controller={hover} ranking={companies} />
+        </section>
+      </main>
+
+      <SiteFooter />
+
+    </>
+  );
+}
+
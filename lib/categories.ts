@@ -0,0 +1,51 @@
+import type { Company } from './companies';
+import { groupGrowth } from './others';
+
+// Companies grouped by their TrustMRR category, for the two-level treemap
+// (?by=category). Only API snapshots carry categories; companies without
+// one share an "Uncategorized" group.
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export interface CategoryGroup {
+  /** Stable key for React and `data-category`, e.g. `dev-tools`. */
+  key: string;
+  category: string;
+  /** Total MRR of the group. */
+  mrr: number;
+  mom_growth: number;
+  /** In input order, i.e. by MRR for a ranked snapshot. */
+  companies: readonly Company[];
+}
+
+export function hasCategories(companies: readonly Company[]): boolean {
+  return companies.some((c) => c.category);
+}
+
+function categoryKey(category: string): string {
+  return category.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'category';
+}
+
+/**
+ * Groups companies by category, largest total MRR first. Categories are
+ * matched case-insensitively, so "AI" and "ai" are one group, named as
+ * the first (largest) company in it spells it.
+ */
+export function groupByCategory(companies: readonly Company[]): CategoryGroup[] {
+  const byKey = new Map<string, { category: string; companies: Company[] }>();
+  for (const company of companies) {
+    const category = company.category?.trim() || UNCATEGORIZED;
+    const key = categoryKey(category);
+    const group = byKey.get(key) ?? { category, companies: [] };
+    group.companies.push(company);
+    byKey.set(key, group);
+  }
+
+  return Array.from(byKey, ([key, group]) => ({
+    key,
+    category: group.category,
+    mrr: group.companies.reduce((sum, c) => sum + Math.max(c.mrr, 0), 0),
+    mom_growth: groupGrowth(group.companies),
+    companies: group.companies,
+  })).sort((a, b) => b.mrr - a.mrr);
+}
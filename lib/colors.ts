@@ -0,0 +1,116 @@
+export const pastelPalette = [
+  '#93c5fd', // brighter sky
+  '#fca5a5', // brighter rose
+  '#d8b4fe', // brighter violet
+  '#facc15', // brighter amber
+  '#86efac', // brighter mint
+  '#f9a8d4', // brighter pink
+  '#fdba74', // brighter orange
+  '#818cf8', // brighter indigo
+  '#7dd3fc', // brighter light blue
+  '#a855f7', // brighter lavender/purple
+  '#a3e635', // brighter lime
+  '#fde68a', // bright soft yellow
+  '#fb7185', // bright blush
+  '#bae6fd', // clear pale sky
+  '#e5b3fe', // pastel purple
+  '#f97373', // coral
+  '#34d399', // bright green
+];
+
+export function shadeColor(hex: string, percent: number) {
+  const cleaned = hex.replace('#', '');
+  const num = parseInt(cleaned.length === 3 ? cleaned.repeat(2) : cleaned, 16);
+  let r = (num >> 16) & 0xff;
+  let g = (num >> 8) & 0xff;
+  let b = num & 0xff;
+
+  const t = percent < 0 ? 0 : 255;
+  const p = Math.abs(percent) / 100;
+
+  r = Math.round((t - r) * p + r);
+  g = Math.round((t - g) * p + g);
+  b = Math.round((t - b) * p + b);
+
+  const toHex = (v: number) => v.toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+/**
+ * Palette gradient for the company at `index` in the ranking. `angle` and
+ * `lighten` let each view keep its own look (bars run top to bottom).
+ */
+export function pickGradient(index: number, angle = 145, lighten = 40) {
+  const base = pastelPalette[index % pastelPalette.length];
+  const darker = shadeColor(base, -3);
+  const lighter = shadeColor(base, lighten);
+  return `linear-gradient(${angle}deg, ${darker}, ${lighter})`;
+}
+
+export type ColorMode = 'palette' | 'growth';
+
+// Diverging scale for MoM growth: shrinking → red, flat → slate, growing → green
+const GROWTH_NEGATIVE = '#ef4444';
+const GROWTH_NEUTRAL = '#e2e8f0';
+const GROWTH_POSITIVE = '#22c55e';
+
+/** Growth (as a decimal) at which the scale saturates, in both directions. */
+export const GROWTH_COLOR_RANGE = 0.5;
+
+function mixColor(from: string, to: string, t: number) {
+  const parse = (hex: string) => {
+    const num = parseInt(hex.replace('#', ''), 16);
+    return [(num >> 16) & 0xff, (num >> 8) & 0xff, num & 0xff];
+  };
+  const a = parse(from);
+  const b = parse(to);
+  const toHex = (v: number) => Math.round(v).toString(16).padStart(2, '0');
+  return `#${a.map((v, i) => toHex(v + (b[i] - v) * t)).join('')}`;
+}
+
+/**
+ * Solid colour for a MoM growth value. Square-root easing so that typical
+ * single-digit growth is already visibly tinted instead of near-neutral.
+ */
+export function growthColor(growth: number) {
+  const t = Math.sqrt(Math.min(Math.abs(growth), GROWTH_COLOR_RANGE) / GROWTH_COLOR_RANGE);
+  return mixColor(GROWTH_NEUTRAL, growth < 0 ? GROWTH_NEGATIVE : GROWTH_POSITIVE, t);
+}
+
+export function growthGradient(growth: number, angle = 145, lighten = 40) {
+  const base = growthColor(growth);
+  return `linear-gradient(${angle}deg, ${shadeColor(base, -3)}, ${shadeColor(base, lighten)})`;
+}
+
+/** Background for a company tile, bar or pixel in the given colour mode. */
+export function companyBackground(
+  company: { rank: number; mom_growth: number },
+  mode: ColorMode,
+  angle = 145,
+  lighten = 40,
+) {
+  return mode === 'growth'
+    ? growthGradient(company.mom_growth, angle, lighten)
+    : pickGradient(company.rank - 1, angle, lighten);
+}
+
+const OTHERS_COLOR = '#cbd5e1';
+
+/** Flat colour for a company where gradients cannot be drawn, such as the pixel map canvas. */
+export function companyColor(company: { rank: number; mom_growth: number }, mode: ColorMode) {
+  return mode === 'growth'
+    ? growthColor(company.mom_growth)
+    : shadeColor(pastelPalette[(company.rank - 1) % pastelPalette.length], 15);
+}
+
+/** Flat colour for the grouped "Others" block; see `othersBackground`. */
+export function othersColor(growth: number, mode: ColorMode) {
+  return mode === 'growth' ? growthColor(growth) : OTHERS_COLOR;
+}
+
+/** Background for the grouped "Others" tile: neutral on the palette, its group growth in growth mode. */
+export function othersBackground(growth: number, mode: ColorMode, angle = 145, lighten = 40) {
+  return mode === 'growth'
+    ? growthGradient(growth, angle, lighten)
+    : `linear-gradient(${angle}deg, ${shadeColor(OTHERS_COLOR, -3)}, ${shadeColor(OTHERS_COLOR, lighten)})`;
+}
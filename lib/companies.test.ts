@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getCumulativeShare, getNeighbours, getPercentile, toCompanies } from './companies';
+
+const ranked = toCompanies(
+  [400, 300, 200, 100, 50].map((mrr, i) => ({
+    name: `Company ${i + 1}`,
+    logo: '',
+    link: `https://trustmrr.com/startup/company-${i + 1}`,
+    mrr,
+    mom_growth: 0,
+  })),
+  'test',
+);
+// Ranks 2, 4 and 5: a company's rank no longer matches its index in the list
+const filtered = ranked.filter((c) => c.rank !== 1 && c.rank !== 3);
+const [second, fourth, fifth] = filtered;
+
+describe('ranking selectors', () => {
+  it('agree with rank on the full ranking', () => {
+    expect(getPercentile(ranked[0], ranked)).toBe(100);
+    expect(getPercentile(ranked[4], ranked)).toBe(0);
+    expect(getNeighbours(ranked[2], 1, ranked).map((c) => c.rank)).toEqual([2, 3, 4]);
+    expect(getCumulativeShare(ranked[1], ranked)).toBeCloseTo(700 / 1050);
+  });
+
+  it('find the company by slug in a filtered list', () => {
+    expect(getPercentile(second, filtered)).toBe(100);
+    expect(getPercentile(fourth, filtered)).toBe(50);
+    expect(getPercentile(fifth, filtered)).toBe(0);
+    expect(getNeighbours(fourth, 1, filtered)).toEqual(filtered);
+    expect(getNeighbours(second, 1, filtered).map((c) => c.rank)).toEqual([2, 4]);
+    expect(getCumulativeShare(fourth, filtered)).toBeCloseTo(400 / 450);
+    expect(getCumulativeShare(fifth, filtered)).toBe(1);
+  });
+});
@@ -0,0 +1,160 @@
+import snapshot from '../data/companies.json';
+import { slugFromLink } from './links';
+import { validateCompanies } from './validation';
+
+/** One month of revenue, e.g. `{ month: '2024-05', mrr: 1200 }`. */
+export interface RevenuePoint {
+  /** `YYYY-MM`. */
+  month: string;
+  mrr: number;
+}
+
+/**
+ * Extra TrustMRR fields, kept when the API returns them. All optional: the
+ * HTML and CSV sources and older snapshots have none of them.
+ */
+export interface CompanyDetails {
+  category?: string;
+  /** Founder's X (Twitter) handle, without the `@`. */
+  founder_handle?: string;
+  /** ISO 3166-1 alpha-2 code, e.g. `US`. */
+  country?: string;
+  /** USD per year. */
+  arr?: number;
+  /** Monthly revenue, oldest first. */
+  revenue_history?: RevenuePoint[];
+  for_sale?: boolean;
+  /** USD, when the company is for sale and the price is public. */
+  asking_price?: number;
+}
+
+/** A company as stored in `data/companies.json`. */
+export interface CompanyRecord extends CompanyDetails {
+  name: string;
+  logo: string;
+  link: string;
+  mrr: number;
+  mom_growth: number;
+}
+
+const DETAIL_KEYS = [
+  'category',
+  'founder_handle',
+  'country',
+  'arr',
+  'revenue_history',
+  'for_sale',
+  'asking_price',
+] as const satisfies readonly (keyof CompanyDetails)[];
+
+/** The detail fields a record has, leaving out the ones it does not (rather than setting them to undefined). */
+export function pickDetails(record: CompanyDetails): CompanyDetails {
+  return Object.fromEntries(DETAIL_KEYS.filter((key) => record[key] !== undefined).map((key) => [key, record[key]]));
+}
+
+/** A company as exposed to the views: the stored record plus derived fields. */
+export interface Company extends CompanyRecord {
+  /** Last path segment of `link`, e.g. `trimrx` for `/startup/trimrx`. */
+  slug: string;
+  /** 1-based position in the MRR ranking. */
+  rank: number;
+}
+
+/**
+ * Runs a snapshot through `validateCompanies` when it is first loaded, so a
+ * malformed file fails `next build` instead of rendering a broken grid.
+ * `npm run validate` prints the full report, warnings included.
+ */
+function parseCompanies(raw: unknown, source: string): CompanyRecord[] {
+  const { errors } = validateCompanies(raw);
+  if (errors.length > 0) {
+    const first = errors[0];
+    throw new Error(
+      `${source} has ${errors.length} invalid entries, e.g. entry ${first.index}: ${first.message}`,
+    );
+  }
+  return (raw as CompanyRecord[]).map((record) => ({
+    name: record.name,
+    logo: record.logo,
+    link: record.link,
+    mrr: record.mrr,
+    mom_growth: record.mom_growth,
+    ...pickDetails(record),
+  }));
+}
+
+function rankCompanies(records: CompanyRecord[]): readonly Company[] {
+  const ranked = [...records]
+    .sort((a, b) => b.mrr - a.mrr)
+    .map((c, i) => Object.freeze({ ...c, slug: slugFromLink(c.link), rank: i + 1 }));
+  return Object.freeze(ranked);
+}
+
+/** Validates, ranks and freezes a parsed snapshot. `source` names the file in errors. */
+export function toCompanies(raw: unknown, source: string): readonly Company[] {
+  return rankCompanies(parseCompanies(raw, source));
+}
+
+const companies = toCompanies(snapshot, 'data/companies.json');
+
+/** All companies, sorted by MRR descending. Frozen, so views cannot reorder it for each other. */
+export function getCompanies(): readonly Company[] {
+  return companies;
+}
+
+// The selectors below default to the latest snapshot; pass a list to query another one
+
+export function getTotalMrr(list: readonly Pick<Company, 'mrr'>[] = companies): number {
+  return list.reduce((sum, c) => sum + Math.max(c.mrr, 0), 0);
+}
+
+export function getMaxMrr(list: readonly Company[] = companies): number {
+  return list.length > 0 ? list[0].mrr : 0;
+}
+
+export function getTopN(n: number, list: readonly Company[] = companies): readonly Company[] {
+  return list.slice(0, Math.max(0, n));
+}
+
+export function getCompanyBySlug(slug: string, list: readonly Company[] = companies): Company | undefined {
+  return list.find((c) => c.slug === slug);
+}
+
+/** Fraction (0–1) of the list's total MRR that `company` makes. */
+export function getMrrShare(company: Company, list: readonly Company[] = companies): number {
+  const total = getTotalMrr(list);
+  return total > 0 ? Math.max(company.mrr, 0) / total : 0;
+}
+
+/**
+ * 0-based position of `company` in `list`, found by slug: `rank` is its place
+ * in its own snapshot, which a filtered or different list does not share. A
+ * company missing from `list` gets the position its MRR would rank at.
+ */
+function positionIn(company: Company, list: readonly Company[]): number {
+  const index = list.findIndex((c) => c.slug === company.slug);
+  return index >= 0 ? index : list.filter((c) => c.mrr > company.mrr).length;
+}
+
+/** Percentile (0–100) of `company` in the ranking: 100 is the top, 0 the bottom. */
+export function getPercentile(company: Company, list: readonly Company[] = companies): number {
+  if (list.length <= 1) return 100;
+  return Math.max(0, ((list.length - 1 - positionIn(company, list)) / (list.length - 1)) * 100);
+}
+
+/** `company` and up to `radius` companies ranked directly above and below it. */
+export function getNeighbours(
+  company: Company,
+  radius: number,
+  list: readonly Company[] = companies,
+): readonly Company[] {
+  const index = positionIn(company, list);
+  return list.slice(Math.max(0, index - radius), index + radius + 1);
+}
+
+/** Fraction (0–1) of the list's total MRR made by `company` and every company ranked above it. */
+export function getCumulativeShare(company: Company, list: readonly Company[] = companies): number {
+  const total = getTotalMrr(list);
+  const above = getTotalMrr(list.slice(0, positionIn(company, list)));
+  return total > 0 ? Math.min(1, (above + Math.max(company.mrr, 0)) / total) : 0;
+}
@@ -0,0 +1,65 @@
+import type { ColorMode } from './colors';
+
+// Options of the embeddable treemap at /embed, all carried in its URL so an
+// <iframe> needs nothing else:
+//   ?top=50             number of companies drawn (the embed is small, so it always cuts)
+//   ?highlight=<slug>   outline one company and mute the rest
+//   ?color=growth       colour mode, as on the site
+//   ?size=600x400       width × height in px; without it the embed fills its frame
+
+export const EMBED_PATH = '/embed';
+export const DEFAULT_EMBED_TOP = 50;
+export const MAX_EMBED_TOP = 250;
+
+export const EMBED_SIZES = ['400x300', '600x400', '800x500', '1000x600'] as const;
+export const DEFAULT_EMBED_SIZE = '600x400';
+
+export interface EmbedSize {
+  width: number;
+  height: number;
+}
+
+export interface EmbedOptions {
+  top: number;
+  highlight: string | null;
+  colorMode: ColorMode;
+  size: EmbedSize | null;
+}
+
+export function parseEmbedTop(value: string | null): number {
+  const top = value ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(top) && top > 0 ? Math.min(top, MAX_EMBED_TOP) : DEFAULT_EMBED_TOP;
+}
+
+/** Parses `WIDTHxHEIGHT` in px; anything else means "fill the frame". */
+export function parseEmbedSize(value: string | null): EmbedSize | null {
+  const match = value?.match(/^(\d+)x(\d+)$/);
+  if (!match) return null;
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+export function formatEmbedSize(size: EmbedSize): string {
+  return `${size.width}x${size.height}`;
+}
+
+/** Absolute URL of the embed for `options`, on the site at `origin`. */
+export function embedUrl(origin: string, options: EmbedOptions): string {
+  const params = new URLSearchParams();
+  if (options.top !== DEFAULT_EMBED_TOP) params.set('top', String(options.top));
+  if (options.highlight) params.set('highlight', options.highlight);
+  if (options.colorMode !== 'palette') params.set('color', options.colorMode);
+  if (options.size) params.set('size', formatEmbedSize(options.size));
+  const query = params.toString();
+  return `${origin}${EMBED_PATH}${query ? `?${query}` : ''}`;
+}
+
+/** The <iframe> markup a third-party site pastes in. */
+export function embedSnippet(origin: string, options: EmbedOptions): string {
+  const { width, height } = options.size ?? (parseEmbedSize(DEFAULT_EMBED_SIZE) as EmbedSize);
+  return [
+    `<iframe src="${embedUrl(origin, options).replace(/&/g, '&amp;')}" width="${width}" height="${height}"`,
+    `  style="border: 0; border-radius: 12px" loading="lazy" title="GridMRR treemap of startup MRR"></iframe>`,
+  ].join('\n');
+}
@@ -0,0 +1,226 @@
+import type { CategoryGroup } from './categories';
+import { companyColor, othersColor, type ColorMode } from './colors';
+import type { Company } from './companies';
+import { formatGrowth, formatMRRAbbreviated } from './format';
+import { isOthersGroup, type LongTailItem } from './others';
+import { buildPixelGrid, EMPTY_CELL, MIN_PIXEL_SIZE, type PixelLayout } from './pixelGrid';
+import { buildNestedTreemap, buildTreemap, type TreemapNode } from './treemap';
+
+// Fixed-size SVG renderings of each view for sharing, built from the same
+// layouts the pages compute rather than from a screenshot. Pure string
+// building, so it runs in the browser of the static export.
+
+export const EXPORT_WIDTH = 1200;
+export const EXPORT_HEIGHT = 630;
+
+const PADDING = 24;
+const HEADER_HEIGHT = 56;
+const FOOTER_HEIGHT = 32;
+const FONT = 'system-ui, -apple-system, BlinkMacSystemFont, &quot;Segoe UI&quot;, sans-serif';
+const ATTRIBUTION = 'Data: TrustMRR (trustmrr.com) · GridMRR is not affiliated with TrustMRR';
+
+// Same 1/4 power the stacked rows and vertical bars use to keep the long tail visible
+const BAR_POWER = 0.25;
+const EXPORT_ROWS = 24;
+const EXPORT_BARS = 80;
+const EXPORT_PIXEL_SIZE = 6;
+const VERTICAL_LABELS = 10; // only the tallest bars have room for a label
+const GROUP_HEADER_HEIGHT = 20;
+const GROUP_PADDING = 2;
+
+export interface ExportFrame {
+  /** View name, e.g. "Treemap". */
+  title: string;
+  /** Snapshot date, or null for the latest data. */
+  date: string | null;
+}
+
+interface Area {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The drawing area between the header and the footer
+const BODY: Area = {
+  x: PADDING,
+  y: HEADER_HEIGHT,
+  width: EXPORT_WIDTH - PADDING * 2,
+  height: EXPORT_HEIGHT - HEADER_HEIGHT - FOOTER_HEIGHT,
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function rect(area: Area, fill: string, extra = ''): string {
+  return `<rect x="${round(area.x)}" y="${round(area.y)}" width="${round(area.width)}" height="${round(area.height)}" fill="${fill}"${extra}/>`;
+}
+
+function text(x: number, y: number, content: string, attrs = ''): string {
+  return `<text x="${round(x)}" y="${round(y)}"${attrs}>${escapeXml(content)}</text>`;
+}
+
+function itemColor(item: LongTailItem, colorMode: ColorMode): string {
+  return isOthersGroup(item) ? othersColor(item.mom_growth, colorMode) : companyColor(item, colorMode);
+}
+
+/** Wraps a view body in the title, snapshot date and attribution footer. */
+function frameSvg(frame: ExportFrame, body: string): string {
+  const subtitle = frame.date ? `Snapshot of ${frame.date}` : 'Latest snapshot';
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${EXPORT_WIDTH}" height="${EXPORT_HEIGHT}" viewBox="0 0 ${EXPORT_WIDTH} ${EXPORT_HEIGHT}" font-family="${FONT}">`,
+    rect({ x: 0, y: 0, width: EXPORT_WIDTH, height: EXPORT_HEIGHT }, '#f8fafc'),
+    text(PADDING, 36, `GridMRR — ${frame.title}`, ' font-size="22" font-weight="700" fill="#0f172a"'),
+    text(EXPORT_WIDTH - PADDING, 36, subtitle, ' font-size="14" fill="#64748b" text-anchor="end"'),
+    body,
+    text(PADDING, EXPORT_HEIGHT - 12, ATTRIBUTION, ' font-size="12" fill="#64748b"'),
+    '</svg>',
+  ].join('\n');
+}
+
+// A tile laid out in BODY coordinates; `id` names its clip path
+function tileSvg(node: TreemapNode<LongTailItem>, colorMode: ColorMode, id: string): string {
+  const area = { x: BODY.x + node.x, y: BODY.y + node.y, width: node.width, height: node.height };
+  const inset = { ...area, width: Math.max(area.width - 2, 0), height: Math.max(area.height - 2, 0) };
+  const tile = rect(inset, itemColor(node, colorMode), ' rx="4"');
+  if (area.width < 60 || area.height < 28) return tile;
+  // Clip labels to their tile so long names do not spill over the neighbours
+  const label = text(area.x + 6, area.y + 16, node.name, ' font-size="12" font-weight="600" fill="#0f172a"');
+  const mrr = text(area.x + 6, area.y + 30, formatMRRAbbreviated(node.mrr), ' font-size="11" fill="#334155"');
+  const clip = `<clipPath id="${id}">${rect(inset, '#000')}</clipPath>`;
+  return `${tile}${clip}<g clip-path="url(#${id})">${label}${mrr}</g>`;
+}
+
+export function treemapSvg(items: readonly LongTailItem[], colorMode: ColorMode, frame: ExportFrame): string {
+  const { nodes } = buildTreemap(items, BODY.width, BODY.height);
+  return frameSvg(frame, nodes.map((node, i) => tileSvg(node, colorMode, `tile-${i}`)).join('\n'));
+}
+
+/** The treemap nested by category, as `?by=category` shows it: each group outlined, with its name and total. */
+export function categoryTreemapSvg(groups: readonly CategoryGroup[], colorMode: ColorMode, frame: ExportFrame): string {
+  const layout = buildNestedTreemap(groups, (group) => group.companies, BODY.width, BODY.height, {
+    headerHeight: GROUP_HEADER_HEIGHT,
+    padding: GROUP_PADDING,
+  });
+  const parts = layout.map(({ group, rect: area, header, nodes }, g) => {
+    const outline = rect(
+      { x: BODY.x + area.x, y: BODY.y + area.y, width: area.width, height: area.height },
+      '#e2e8f0',
+      ' stroke="#94a3b8" rx="4"',
+    );
+    const label =
+      header && header.width >= 60
+        ? `<clipPath id="group-${g}">${rect({ ...header, x: BODY.x + header.x, y: BODY.y + header.y }, '#000')}</clipPath>` +
+          `<g clip-path="url(#group-${g})">${text(
+            BODY.x + header.x + 4,
+            BODY.y + header.y + 14,
+            `${group.category} · ${formatMRRAbbreviated(group.mrr)}`,
+            ' font-size="12" font-weight="700" fill="#0f172a"',
+          )}</g>`
+        : '';
+    const tiles = nodes.map((node, i) => tileSvg(node, colorMode, `tile-${g}-${i}`));
+    return [outline, label, ...tiles].join('\n');
+  });
+  return frameSvg(frame, parts.join('\n'));
+}
+
+// A fixed-unit grid keeps the width it is given and grows downwards; this width makes it about the shape of BODY
+function fixedUnitGrid(items: readonly LongTailItem[], colorMode: ColorMode, layout: PixelLayout, unit: number) {
+  const probe = buildPixelGrid(items, BODY.width, BODY.height, { colorMode, layout, unit });
+  const cells = probe.companies.reduce((s, meta) => s + meta.count, 0);
+  const cols = Math.ceil(Math.sqrt((cells * BODY.width) / BODY.height));
+  return buildPixelGrid(items, cols * MIN_PIXEL_SIZE, BODY.height, { colorMode, layout, unit });
+}
+
+/** The pixel map, fitted to the image or, with a `unit` in USD per pixel, at that denomination. */
+export function pixelMapSvg(
+  items: readonly LongTailItem[],
+  colorMode: ColorMode,
+  layout: PixelLayout,
+  unit: number | null,
+  frame: ExportFrame,
+): string {
+  // buildPixelGrid sizes cells at MIN_PIXEL_SIZE; scale the area so they come out at EXPORT_PIXEL_SIZE
+  const scale = MIN_PIXEL_SIZE / EXPORT_PIXEL_SIZE;
+  const grid = unit
+    ? fixedUnitGrid(items, colorMode, layout, unit)
+    : buildPixelGrid(items, BODY.width * scale, BODY.height * scale, { colorMode, layout });
+  // Fixed-unit cells stay square, however many there are
+  const fixedCell = Math.min(BODY.width / grid.cols, BODY.height / grid.rows);
+  const cellW = grid.unit ? fixedCell : BODY.width / grid.cols;
+  const cellH = grid.unit ? fixedCell : BODY.height / grid.rows;
+  const colorByIndex = new Map(grid.companies.map((meta) => [meta.index, meta.color]));
+
+  // One rect per horizontal run of same-company cells keeps the file small
+  const runs: string[] = [];
+  for (let row = 0; row < grid.rows; row += 1) {
+    let col = 0;
+    while (col < grid.cols) {
+      const index = grid.pixels[row * grid.cols + col];
+      let end = col + 1;
+      while (end < grid.cols && grid.pixels[row * grid.cols + end] === index) end += 1;
+      const color = index === EMPTY_CELL ? undefined : colorByIndex.get(index);
+      if (color) {
+        const run = { x: BODY.x + col * cellW, y: BODY.y + row * cellH, width: (end - col) * cellW, height: cellH };
+        runs.push(rect(run, color));
+      }
+      col = end;
+    }
+  }
+
+  const legend = grid.unit
+    ? `1 pixel = ${formatMRRAbbreviated(grid.unit)} MRR · ${grid.underUnit} companies under that drawn as one pixel`
+    : `1 pixel ≈ ${formatMRRAbbreviated(grid.dollarsPerPixel)} MRR`;
+  const note = text(EXPORT_WIDTH / 2, 36, legend, ' font-size="14" fill="#64748b" text-anchor="middle"');
+  return frameSvg(frame, `<g shape-rendering="crispEdges">${runs.join('')}</g>\n${note}`);
+}
+
+export function stackedRowsSvg(companies: readonly Company[], colorMode: ColorMode, frame: ExportFrame): string {
+  const shown = companies.slice(0, EXPORT_ROWS);
+  const maxMRR = shown[0]?.mrr || 1;
+  const rowHeight = BODY.height / EXPORT_ROWS;
+
+  const rows = shown.map((company, i) => {
+    const y = BODY.y + i * rowHeight;
+    const width = Math.max(Math.pow(Math.max(company.mrr, 0) / maxMRR, BAR_POWER) * BODY.width, 2);
+    const bar = rect({ x: BODY.x, y, width, height: rowHeight - 3 }, companyColor(company, colorMode), ' rx="4"');
+    const label = text(
+      BODY.x + 8,
+      y + rowHeight / 2 + 3,
+      `${company.rank}. ${company.name} · ${formatMRRAbbreviated(company.mrr)} · ${formatGrowth(company.mom_growth)}`,
+      ' font-size="12" font-weight="600" fill="#0f172a"',
+    );
+    return bar + label;
+  });
+  return frameSvg(frame, rows.join('\n'));
+}
+
+export function verticalSvg(companies: readonly Company[], colorMode: ColorMode, frame: ExportFrame): string {
+  const shown = companies.slice(0, EXPORT_BARS);
+  const maxMRR = shown[0]?.mrr || 1;
+  const barWidth = BODY.width / Math.max(shown.length, 1);
+
+  const bars = shown.map((company, i) => {
+    const height = Math.max(Math.pow(Math.max(company.mrr, 0) / maxMRR, BAR_POWER) * BODY.height, 2);
+    const area = { x: BODY.x + i * barWidth, y: BODY.y + BODY.height - height, width: Math.max(barWidth - 2, 1), height };
+    const bar = rect(area, companyColor(company, colorMode), ' rx="2"');
+    if (i >= VERTICAL_LABELS) return bar;
+    // Rotated to run down the bar, which is far narrower than a name
+    const x0 = area.x + area.width / 2 - 4;
+    const y0 = area.y + 8;
+    const label = text(
+      x0,
+      y0,
+      `${company.name} ${formatMRRAbbreviated(company.mrr)}`,
+      ` font-size="11" font-weight="600" fill="#0f172a" transform="rotate(90 ${round(x0)} ${round(y0)})"`,
+    );
+    return bar + label;
+  });
+  return frameSvg(frame, bars.join('\n'));
+}
@@ -0,0 +1,68 @@
+import type { Company } from './companies';
+
+// Filter state lives in the URL so a filtered view can be shared:
+//   ?mrr=10000..50000   MRR band in USD (either bound may be left out: `mrr=100000..`)
+//   ?growth=20..        MoM growth band in percent (`growth=..0` for shrinking)
+//   ?top=100            keep only the N highest-MRR companies left after the bands
+
+export interface Range {
+  min: number | null;
+  max: number | null;
+}
+
+export interface CompanyFilter {
+  mrr: Range;
+  /** Growth band as decimals, like `mom_growth` (0.2 = +20%). */
+  growth: Range;
+  topN: number | null;
+}
+
+export interface FilterParams {
+  mrr: string | null;
+  growth: string | null;
+  top: string | null;
+}
+
+function parseBound(value: string, scale: number): number | null {
+  if (value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num * scale : null;
+}
+
+/** Parses `min..max`, `min..` or `..max`. Anything else means no bound. */
+export function parseRange(value: string | null, scale = 1): Range {
+  if (!value || !value.includes('..')) return { min: null, max: null };
+  const [min, max] = value.split('..', 2);
+  return { min: parseBound(min, scale), max: parseBound(max, scale) };
+}
+
+export function parseFilter(params: FilterParams): CompanyFilter {
+  const top = params.top ? Number.parseInt(params.top, 10) : NaN;
+  return {
+    mrr: parseRange(params.mrr),
+    growth: parseRange(params.growth, 0.01),
+    topN: Number.isFinite(top) && top > 0 ? top : null,
+  };
+}
+
+export function isFilterActive(filter: CompanyFilter): boolean {
+  return (
+    filter.mrr.min !== null ||
+    filter.mrr.max !== null ||
+    filter.growth.min !== null ||
+    filter.growth.max !== null ||
+    filter.topN !== null
+  );
+}
+
+// Lower bound inclusive, upper bound exclusive, so adjacent bands do not overlap
+function inRange(value: number, range: Range): boolean {
+  return (range.min === null || value >= range.min) && (range.max === null || value < range.max);
+}
+
+/** Companies passing the MRR and growth bands, then cut to the top N. Keeps the input order. */
+export function applyFilter(companies: readonly Company[], filter: CompanyFilter): readonly Company[] {
+  if (!isFilterActive(filter)) return companies;
+  const banded = companies.filter((c) => inRange(c.mrr, filter.mrr) && inRange(c.mom_growth, filter.growth));
+  return filter.topN !== null ? banded.slice(0, filter.topN) : banded;
+}
@@ -0,0 +1,36 @@
+export function formatCurrency(value: number): string {
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 2,
+  });
+}
+
+export function formatMRR(mrr: number): string {
+  return mrr.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  });
+}
+
+export function formatMRRAbbreviated(mrr: number): string {
+  if (mrr >= 1000000) {
+    return `$${(mrr / 1000000).toFixed(1)}M`;
+  } else if (mrr >= 1000) {
+    return `$${(mrr / 1000).toFixed(0)}k`;
+  } else {
+    return `$${mrr.toFixed(0)}`;
+  }
+}
+
+export function formatGrowth(growth: number): string {
+  const pct = growth * 100;
+  const sign = pct >= 0 ? '+' : '';
+  return `${sign}${pct.toFixed(1)}%`;
+}
+
+/** Formats a 0–1 fraction, e.g. `0.0123` → `1.23%`. */
+export function formatShare(share: number, digits = 2): string {
+  return `${(share * 100).toFixed(digits)}%`;
+}
@@ -0,0 +1,12 @@
+export function addRefToLink(link: string): string {
+  if (link.includes('trustmrr.com')) {
+    const separator = link.includes('?') ? '&' : '?';
+    return `${link}${separator}ref=gridmrr`;
+  }
+  return link;
+}
+
+export function slugFromLink(link: string): string {
+  const path = link.replace(/[?#].*$/, '').replace(/\/+$/, '');
+  return path.slice(path.lastIndexOf('/') + 1);
+}
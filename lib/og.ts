@@ -0,0 +1,54 @@
+import type { Metadata } from 'next';
+import { VIEWS, type ViewId } from './routes';
+
+// Open Graph images are written to public/og/ by `npm run og` (part of
+// `prebuild`), so they ship with the static export like any other asset.
+// Set NEXT_PUBLIC_SITE_URL when building for production so previews get
+// absolute URLs.
+
+export const OG_DIR = 'og';
+export const OG_SIZE = { width: 1200, height: 630 };
+
+const DEV_SITE_URL = 'http://localhost:3000';
+
+/**
+ * The origin relative OG image paths resolve against. Outside `next dev`
+ * a missing NEXT_PUBLIC_SITE_URL is warned about: the build still works,
+ * but every preview would point at localhost.
+ */
+export function siteUrl(): URL {
+  const url = process.env.NEXT_PUBLIC_SITE_URL;
+  if (url) return new URL(url);
+  if (process.env.NODE_ENV === 'production') {
+    // eslint-disable-next-line no-console
+    console.warn(`⚠ NEXT_PUBLIC_SITE_URL is not set: Open Graph images will point at ${DEV_SITE_URL}`);
+  }
+  return new URL(DEV_SITE_URL);
+}
+
+/** Public path of the OG image for `view` of a snapshot; a null date is the latest data. */
+export function viewOgImage(view: ViewId, date: string | null): string {
+  return date ? `/${OG_DIR}/snapshots/${date}/${view}.png` : `/${OG_DIR}/${view}.png`;
+}
+
+export function companyOgImage(slug: string): string {
+  return `/${OG_DIR}/company/${slug}.png`;
+}
+
+/** Page metadata with its Open Graph and Twitter card image. */
+export function ogMetadata(title: string, description: string, image: string): Metadata {
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [{ url: image, ...OG_SIZE }] },
+    twitter: { card: 'summary_large_image', title, description, images: [image] },
+  };
+}
+
+/** Metadata for `view` of a snapshot, titled like the snapshot pages always were. */
+export function viewMetadata(view: ViewId, date: string | null): Metadata {
+  const label = VIEWS.find((v) => v.id === view)?.label ?? view;
+  const title = date ? `GridMRR — ${label}, ${date}` : `GridMRR — ${label}`;
+  const description = `${label} of startup MRR from TrustMRR, ${date ? `snapshot of ${date}` : 'latest snapshot'}.`;
+  return ogMetadata(title, description, viewOgImage(view, date));
+}
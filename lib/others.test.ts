@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toCompanies } from './companies';
+import { groupLongTail, isOthersGroup } from './others';
+
+const companies = toCompanies(
+  ['big', 'others', 'tiny-1', 'tiny-2'].map((name, i) => ({
+    name,
+    logo: '',
+    link: `https://trustmrr.com/startup/${name}`,
+    mrr: [10_000, 5_000, 1, 1][i],
+    mom_growth: 0,
+  })),
+  'test',
+);
+
+describe('groupLongTail', () => {
+  it('keeps a company with the slug "others" apart from the Others group', () => {
+    const { items, others } = groupLongTail(companies, 0.01);
+    expect(others?.companies.map((c) => c.slug)).toEqual(['tiny-1', 'tiny-2']);
+    expect(items.map((item) => item.slug)).toEqual(['big', 'others', others?.slug]);
+    expect(new Set(items.map((item) => item.slug)).size).toBe(items.length);
+    expect(items.filter(isOthersGroup)).toEqual([others]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Company } from './companies';
+
+// Companies below a share of the total MRR fold into one "Others" tile, so the
+// long tail is counted and labelled instead of drawn as unreadable slivers.
+//   ?others=0.25   threshold in percent of the total MRR (default 0.1)
+//   ?others=off    draw every company on its own
+//   ?group=others  drill into a sub-view of the grouped companies
+
+// Underscored to stay clear of startup slugs, so a company called "others" keeps its own tile and key
+export const OTHERS_SLUG = '__others';
+const DEFAULT_OTHERS_THRESHOLD = 0.001; // 0.1% of the total MRR
+
+// Folding a single company into "Others (1 company)" hides it for nothing
+const MIN_GROUP_SIZE = 2;
+
+export interface OthersGroup {
+  slug: typeof OTHERS_SLUG;
+  name: string;
+  mrr: number;
+  /** MoM growth of the group as a whole: total MRR against total MRR a month earlier. */
+  mom_growth: number;
+  /** The grouped companies, in input order. */
+  companies: readonly Company[];
+}
+
+export type LongTailItem = Company | OthersGroup;
+
+export interface LongTail {
+  /** Companies above the threshold, then the Others group if there is one. */
+  items: LongTailItem[];
+  others: OthersGroup | null;
+}
+
+export function isOthersGroup(item: LongTailItem): item is OthersGroup {
+  return item.slug === OTHERS_SLUG && 'companies' in item;
+}
+
+/** Parses `?others=`: a percentage, `off`/`0` to disable, anything else for the default. */
+export function parseOthersThreshold(value: string | null): number {
+  if (value === 'off') return 0;
+  const percent = value ? Number(value) : NaN;
+  return Number.isFinite(percent) && percent >= 0 ? percent / 100 : DEFAULT_OTHERS_THRESHOLD;
+}
+
+/** MoM growth of a set of companies together. Last month's MRR is mrr / (1 + growth), so the set grows by its totals, not by the mean of its rates. */
+export function groupGrowth(companies: readonly Company[]): number {
+  let current = 0;
+  let previous = 0;
+  for (const c of companies) {
+    if (c.mom_growth <= -1) continue;
+    current += c.mrr;
+    previous += c.mrr / (1 + c.mom_growth);
+  }
+  return previous > 0 ? current / previous - 1 : 0;
+}
+
+/** Splits `companies` at `threshold` (a fraction of their total MRR) into a head and an Others group. */
+export function groupLongTail(companies: readonly Company[], threshold: number): LongTail {
+  const total = companies.reduce((sum, c) => sum + Math.max(c.mrr, 0), 0);
+  const cutoff = total * threshold;
+  const head = companies.filter((c) => c.mrr >= cutoff);
+  const tail = companies.filter((c) => c.mrr < cutoff);
+
+  if (threshold <= 0 || tail.length < MIN_GROUP_SIZE) {
+    return { items: [...companies], others: null };
+  }
+
+  const others: OthersGroup = {
+    slug: OTHERS_SLUG,
+    name: `Others (${tail.length} companies)`,
+    mrr: tail.reduce((sum, c) => sum + Math.max(c.mrr, 0), 0),
+    mom_growth: groupGrowth(tail),
+    companies: tail,
+  };
+  return { items: [...head, others], others };
+}
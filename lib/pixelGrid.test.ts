@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { toCompanies } from './companies';
+import { groupLongTail } from './others';
+import { buildPixelGrid, EMPTY_CELL, MIN_PIXEL_SIZE, type PixelGridState } from './pixelGrid';
+
+const companies = toCompanies(
+  Array.from({ length: 40 }, (_, i) => ({
+    name: `Company ${i}`,
+    logo: '',
+    link: `https://trustmrr.com/startup/company-${i}`,
+    mrr: Math.round(200_000 / (i + 1) ** 1.5) + 10,
+    mom_growth: 0,
+  })),
+  'test',
+);
+const total = companies.reduce((s, c) => s + c.mrr, 0);
+
+// Cells each company actually owns in `pixels`
+function cellCounts(grid: PixelGridState): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const cell of grid.pixels) counts.set(cell, (counts.get(cell) ?? 0) + 1);
+  return counts;
+}
+
+describe('buildPixelGrid fitted to the screen', () => {
+  const grid = buildPixelGrid(companies, 400, 300, { colorMode: 'palette' });
+
+  it('hands out every cell, in proportion to MRR', () => {
+    expect(grid.cols).toBe(400 / MIN_PIXEL_SIZE);
+    expect(grid.rows).toBe(300 / MIN_PIXEL_SIZE);
+    expect(grid.unit).toBeNull();
+    expect(grid.underUnit).toBe(0);
+    expect(grid.companies.reduce((s, m) => s + m.count, 0)).toBe(grid.cols * grid.rows);
+    for (const meta of grid.companies) {
+      expect(Math.abs(meta.count - (meta.mrr / total) * grid.cols * grid.rows)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('writes each company into as many cells as it counts', () => {
+    const counts = cellCounts(grid);
+    expect(counts.has(EMPTY_CELL)).toBe(false);
+    for (const meta of grid.companies) expect(counts.get(meta.index)).toBe(meta.count);
+  });
+
+  it('keeps each company inside its bounds, in either layout', () => {
+    for (const layout of ['hilbert', 'rows'] as const) {
+      const g = buildPixelGrid(companies, 400, 300, { colorMode: 'palette', layout });
+      const byIndex = new Map(g.companies.map((m) => [m.index, m.bounds]));
+      const outside = g.pixels.filter((owner, cell) => {
+        const bounds = byIndex.get(owner)!;
+        const col = cell % g.cols;
+        const row = Math.floor(cell / g.cols);
+        return col < bounds.col || col >= bounds.col + bounds.cols || row < bounds.row || row >= bounds.row + bounds.rows;
+      });
+      expect(outside).toHaveLength(0);
+    }
+  });
+
+  it('gives the Others group one block', () => {
+    const { items } = groupLongTail(companies, 0.05);
+    const g = buildPixelGrid(items, 400, 300, { colorMode: 'growth' });
+    const others = g.companies.filter((m) => m.grouped);
+    expect(others).toHaveLength(1);
+    expect(others[0].grouped!.length).toBeGreaterThan(1);
+  });
+});
+
+describe('buildPixelGrid with a fixed unit', () => {
+  it('gives each company mrr / unit cells and at least one', () => {
+    const grid = buildPixelGrid(companies, 400, 300, { colorMode: 'palette', unit: 100 });
+    expect(grid.unit).toBe(100);
+    for (const meta of grid.companies) {
+      expect(meta.count).toBe(Math.max(1, Math.round(meta.mrr / 100)));
+    }
+    expect(grid.companies).toHaveLength(companies.length);
+    expect(grid.underUnit).toBe(companies.filter((c) => c.mrr < 100).length);
+  });
+
+  it('grows downwards and leaves the cells after the last company empty', () => {
+    const grid = buildPixelGrid(companies, 400, 300, { colorMode: 'palette', layout: 'rows', unit: 10 });
+    const used = grid.companies.reduce((s, m) => s + m.count, 0);
+    expect(grid.cols).toBe(400 / MIN_PIXEL_SIZE);
+    expect(grid.rows).toBe(Math.ceil(used / grid.cols));
+    // In `rows` order, that is the tail of the last row
+    expect(grid.pixels.slice(0, used).includes(EMPTY_CELL)).toBe(false);
+    expect(grid.pixels.slice(used).every((cell) => cell === EMPTY_CELL)).toBe(true);
+  });
+
+  it('leaves as many cells empty along the curve', () => {
+    const grid = buildPixelGrid(companies, 400, 300, { colorMode: 'palette', unit: 10 });
+    const used = grid.companies.reduce((s, m) => s + m.count, 0);
+    const counts = cellCounts(grid);
+    expect(counts.get(EMPTY_CELL) ?? 0).toBe(grid.pixels.length - used);
+    for (const meta of grid.companies) expect(counts.get(meta.index)).toBe(meta.count);
+  });
+
+  it('raises a unit that needs too many cells tenfold until it fits', () => {
+    const grid = buildPixelGrid(companies, 400, 300, { colorMode: 'palette', unit: 0.01 });
+    expect(grid.unit).toBeGreaterThan(0.01);
+    expect(grid.cols * grid.rows).toBeLessThanOrEqual(4_000_000);
+    expect(grid.rows).toBeLessThanOrEqual(16_384);
+  });
+});
@@ -0,0 +1,253 @@
+import { companyColor, othersColor, type ColorMode } from './colors';
+import { getTotalMrr, type Company } from './companies';
+import { isOthersGroup, type LongTailItem } from './others';
+
+/**
+ * Order cells are handed out in. `hilbert` walks a Hilbert curve so every
+ * company gets a compact blob; `rows` fills row by row, as stripes.
+ */
+export type PixelLayout = 'hilbert' | 'rows';
+
+export interface PixelBounds {
+  col: number;
+  row: number;
+  cols: number;
+  rows: number;
+}
+
+export interface CompanyPixelMeta {
+  index: number;
+  name: string;
+  slug: string;
+  mrr: number;
+  link: string;
+  /** Flat hex colour, as the canvas cannot draw gradients per cell. */
+  color: string;
+  /** Position of the first cell along the fill order (not a row-major index in `hilbert`). */
+  start: number;
+  count: number;
+  /** Bounding box of the company's cells, in cells. */
+  bounds: PixelBounds;
+  /** Companies this block stands for when it is the Others group. */
+  grouped: readonly Company[] | null;
+}
+
+export interface PixelGridState {
+  cols: number;
+  rows: number;
+  /** Row-major cells, each holding the `index` of the company that owns it, or `EMPTY_CELL`. */
+  pixels: Uint16Array;
+  companies: CompanyPixelMeta[];
+  dollarsPerPixel: number;
+  /** Denomination actually used in fixed-unit mode (raised if the requested one needs too many cells). */
+  unit: number | null;
+  /** Companies under one unit, drawn as a single cell anyway. 0 when the grid is fitted to the screen. */
+  underUnit: number;
+}
+
+export const MIN_PIXEL_SIZE = 2; // logical minimum size in CSS px
+const MAX_PIXELS = 400_000; // keeps the buffer and a full redraw cheap on very large screens
+const MAX_FIXED_PIXELS = 4_000_000; // a fixed unit that needs more cells than this is raised tenfold until it fits
+const MAX_CANVAS_SIDE = 16_384; // rows too; the cells are cached in a canvas of one pixel per cell
+
+/**
+ * Cell value for cells no company owns. In a fixed-unit grid these are the
+ * last cells in fill order: the end of the curve, or the tail of the last row.
+ */
+export const EMPTY_CELL = 0xffff;
+
+/**
+ * Generalized Hilbert curve ("gilbert", Jakub Červený) over a `cols` x `rows`
+ * grid of any size: each step moves to an adjacent cell, and every stretch of
+ * the curve covers a compact region. Returns row-major cell indices in curve order.
+ */
+function hilbertOrder(cols: number, rows: number): Uint32Array {
+  const order = new Uint32Array(cols * rows);
+  let n = 0;
+
+  // Fills the rectangle at (x, y) spanned by the major axis (ax, ay) and the minor axis (bx, by)
+  function fill(x: number, y: number, ax: number, ay: number, bx: number, by: number) {
+    const w = Math.abs(ax + ay);
+    const h = Math.abs(bx + by);
+    const dax = Math.sign(ax);
+    const day = Math.sign(ay);
+    const dbx = Math.sign(bx);
+    const dby = Math.sign(by);
+
+    if (h === 1 || w === 1) {
+      const [dx, dy, len] = h === 1 ? [dax, day, w] : [dbx, dby, h];
+      for (let i = 0; i < len; i += 1) {
+        order[n] = (y + dy * i) * cols + (x + dx * i);
+        n += 1;
+      }
+      return;
+    }
+
+    let ax2 = Math.floor(ax / 2);
+    let ay2 = Math.floor(ay / 2);
+    let bx2 = Math.floor(bx / 2);
+    let by2 = Math.floor(by / 2);
+    const w2 = Math.abs(ax2 + ay2);
+    const h2 = Math.abs(bx2 + by2);
+
+    if (2 * w > 3 * h) {
+      // Long rectangle: split in two along the major axis, keeping both halves even where possible
+      if (w2 % 2 && w > 2) {
+        ax2 += dax;
+        ay2 += day;
+      }
+      fill(x, y, ax2, ay2, bx, by);
+      fill(x + ax2, y + ay2, ax - ax2, ay - ay2, bx, by);
+    } else {
+      // Squarish: the standard three-part Hilbert step
+      if (h2 % 2 && h > 2) {
+        bx2 += dbx;
+        by2 += dby;
+      }
+      fill(x, y, bx2, by2, ax2, ay2);
+      fill(x + bx2, y + by2, ax, ay, bx - bx2, by - by2);
+      fill(x + (ax - dax) + (bx2 - dbx), y + (ay - day) + (by2 - dby), -bx2, -by2, -(ax - ax2), -(ay - ay2));
+    }
+  }
+
+  if (cols >= rows) {
+    fill(0, 0, cols, 0, 0, rows);
+  } else {
+    fill(0, 0, 0, rows, cols, 0);
+  }
+  return order;
+}
+
+export interface PixelGridOptions {
+  colorMode: ColorMode;
+  layout?: PixelLayout;
+  /**
+   * Fixed denomination in USD per cell. The grid then keeps the width it is
+   * given and grows downwards as far as needed, and every company gets at
+   * least one cell. Null fits the grid to `width` x `height` instead.
+   */
+  unit?: number | null;
+}
+
+// Cell counts proportional to MRR that add up to exactly `totalPixels` (largest remainder)
+function fitCounts(data: readonly LongTailItem[], totalPixels: number, dollarsPerPixel: number): number[] {
+  const rawCounts = data.map((c) => Math.max(0, c.mrr) / dollarsPerPixel);
+  const floorCounts = rawCounts.map((v) => Math.floor(v));
+  const assigned = floorCounts.reduce((s, v) => s + v, 0);
+  let remaining = totalPixels - assigned;
+
+  const remainders = rawCounts.map((v, i) => ({ i, r: v - floorCounts[i] }));
+  remainders.sort((a, b) => b.r - a.r);
+  for (let k = 0; k < remainders.length && remaining > 0; k += 1) {
+    floorCounts[remainders[k].i] += 1;
+    remaining -= 1;
+  }
+  return floorCounts;
+}
+
+// Smallest power-of-ten multiple of `unit` that keeps the grid under MAX_FIXED_PIXELS and MAX_CANVAS_SIDE rows
+function fitUnit(data: readonly LongTailItem[], unit: number, cols: number): number {
+  const maxPixels = Math.min(MAX_FIXED_PIXELS, cols * MAX_CANVAS_SIDE);
+  let fitted = unit;
+  while (data.reduce((s, c) => s + Math.max(1, Math.round(Math.max(0, c.mrr) / fitted)), 0) > maxPixels) {
+    fitted *= 10;
+  }
+  return fitted;
+}
+
+/**
+ * Splits a `width` x `height` CSS px area into cells and hands them out in
+ * proportion to MRR (largest remainder), in ranking order along `layout`.
+ * With a `unit`, each company gets `mrr / unit` cells (at least one) instead.
+ */
+export function buildPixelGrid(
+  data: readonly LongTailItem[],
+  width: number,
+  height: number,
+  { colorMode, layout = 'hilbert', unit = null }: PixelGridOptions,
+): PixelGridState {
+  let cols = Math.max(20, Math.floor(width / MIN_PIXEL_SIZE));
+  let rows: number;
+  let counts: number[];
+  let dollarsPerPixel: number;
+  let underUnit = 0;
+
+  if (unit) {
+    dollarsPerPixel = fitUnit(data, unit, cols);
+    counts = data.map((c) => Math.max(1, Math.round(Math.max(0, c.mrr) / dollarsPerPixel)));
+    underUnit = data.filter((c) => c.mrr < dollarsPerPixel).length;
+    rows = Math.max(1, Math.ceil(counts.reduce((s, v) => s + v, 0) / cols));
+  } else {
+    rows = Math.max(10, Math.floor(height / MIN_PIXEL_SIZE));
+    if (cols * rows > MAX_PIXELS) {
+      const scale = Math.sqrt(MAX_PIXELS / (cols * rows));
+      cols = Math.max(10, Math.floor(cols * scale));
+      rows = Math.max(10, Math.floor(rows * scale));
+    }
+    dollarsPerPixel = (getTotalMrr(data) || 1) / (cols * rows);
+    counts = fitCounts(data, cols * rows, dollarsPerPixel);
+  }
+
+  const totalPixels = cols * rows;
+  const pixels = new Uint16Array(totalPixels).fill(EMPTY_CELL);
+  const metas: CompanyPixelMeta[] = [];
+  const order = layout === 'hilbert' ? hilbertOrder(cols, rows) : null;
+  // Writes `idx` into the cells at fill positions [start, end) and returns their bounding box
+  const assign = (idx: number, start: number, end: number): PixelBounds => {
+    let minCol = cols;
+    let minRow = rows;
+    let maxCol = -1;
+    let maxRow = -1;
+    for (let p = start; p < end; p += 1) {
+      const cell = order ? order[p] : p;
+      pixels[cell] = idx;
+      const col = cell % cols;
+      const row = (cell - col) / cols;
+      minCol = Math.min(minCol, col);
+      minRow = Math.min(minRow, row);
+      maxCol = Math.max(maxCol, col);
+      maxRow = Math.max(maxRow, row);
+    }
+    return { col: minCol, row: minRow, cols: maxCol - minCol + 1, rows: maxRow - minRow + 1 };
+  };
+
+  let cursor = 0;
+  data.forEach((c, idx) => {
+    const count = counts[idx];
+    if (count <= 0) return;
+    const start = cursor;
+    const end = Math.min(totalPixels, start + count);
+    const bounds = assign(idx, start, end);
+    const isOthers = isOthersGroup(c);
+    metas.push({
+      index: idx,
+      name: c.name,
+      slug: c.slug,
+      mrr: c.mrr,
+      link: isOthers ? '' : c.link,
+      color: isOthers ? othersColor(c.mom_growth, colorMode) : companyColor(c, colorMode),
+      start,
+      count: end - start,
+      bounds,
+      grouped: isOthers ? c.companies : null,
+    });
+    cursor = end;
+  });
+
+  // Fill any remaining pixels with the last company to avoid gaps; a fixed unit leaves them empty
+  if (!unit && cursor < totalPixels && metas.length > 0) {
+    const last = metas[metas.length - 1];
+    const extra = assign(last.index, cursor, totalPixels);
+    const col = Math.min(last.bounds.col, extra.col);
+    const row = Math.min(last.bounds.row, extra.row);
+    last.bounds = {
+      col,
+      row,
+      cols: Math.max(last.bounds.col + last.bounds.cols, extra.col + extra.cols) - col,
+      rows: Math.max(last.bounds.row + last.bounds.rows, extra.row + extra.rows) - row,
+    };
+    last.count += totalPixels - cursor;
+  }
+
+  return { cols, rows, pixels, companies: metas, dollarsPerPixel, unit: unit ? dollarsPerPixel : null, underUnit };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// URL query state for client components. Reads and writes `window.location`
+// directly rather than `useSearchParams`, which would force every view behind
+// a Suspense boundary and drop it from the statically exported HTML. The
+// prerendered page shows the defaults; the URL state applies after hydration.
+
+const QUERY_CHANGE_EVENT = 'gridmrr:querychange';
+
+function readParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+/** Updates several query parameters at once; `null` or `''` removes one. */
+export function setQueryParams(updates: Record<string, string | null>) {
+  const params = new URLSearchParams(window.location.search);
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null || value === '') {
+      params.delete(name);
+    } else {
+      params.set(name, value);
+    }
+  }
+  const query = params.toString();
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  window.dispatchEvent(new Event(QUERY_CHANGE_EVENT));
+}
+
+/** A query parameter kept in sync across every component that uses it. */
+export function useQueryParam(name: string): [string | null, (value: string | null) => void] {
+  const [value, setValue] = useState<string | null>(null);
+
+  useEffect(() => {
+    const sync = () => setValue(readParam(name));
+    sync();
+    window.addEventListener(QUERY_CHANGE_EVENT, sync);
+    window.addEventListener('popstate', sync);
+    return () => {
+      window.removeEventListener(QUERY_CHANGE_EVENT, sync);
+      window.removeEventListener('popstate', sync);
+    };
+  }, [name]);
+
+  const update = useCallback((next: string | null) => setQueryParams({ [name]: next }), [name]);
+
+  return [value, update];
+}
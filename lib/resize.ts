@@ -0,0 +1,24 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+/** Content-box size of the element behind `ref`, kept current with a ResizeObserver; null until measured. */
+export function useElementSize(ref: RefObject<HTMLElement>): ElementSize | null {
+  const [size, setSize] = useState<ElementSize | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return undefined;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize((prev) => (prev && prev.width === width && prev.height === height ? prev : { width, height }));
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+}
@@ -0,0 +1,29 @@
+export type ViewId = 'treemap' | 'pixel-map' | 'stacked-rows' | 'vertical';
+
+export const VIEWS: { id: ViewId; label: string }[] = [
+  { id: 'treemap', label: 'Treemap' },
+  { id: 'stacked-rows', label: 'Stacked Rows' },
+  { id: 'pixel-map', label: 'Pixel Map' },
+  { id: 'vertical', label: 'Vertical' },
+];
+
+/** Which snapshot a view shows, and which ones the date slider can move to. */
+export interface SnapshotNav {
+  date: string | null;
+  dates: readonly string[];
+}
+
+/**
+ * URL of `view` for a snapshot date. The latest snapshot lives at the root
+ * routes (`/`, `/pixel-map`, ...); older ones under `/snapshots/<date>/`.
+ */
+export function viewHref(view: ViewId, date: string | null, dates: readonly string[]): string {
+  const suffix = view === 'treemap' ? '' : view;
+  const isLatest = date === null || date === dates[dates.length - 1];
+  if (isLatest) return `/${suffix}`;
+  return `/snapshots/${date}${suffix ? `/${suffix}` : ''}`;
+}
+
+export function companyHref(slug: string): string {
+  return `/company/${slug}`;
+}
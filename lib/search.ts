@@ -0,0 +1,35 @@
+// Case-insensitive fuzzy matching on company names. A substring match beats a
+// scattered subsequence; among subsequences, fewer and shorter gaps win.
+
+const PREFIX_SCORE = 3;
+const SUBSTRING_SCORE = 2;
+
+/** Score of `query` against `name`, or null when the characters do not appear in order. */
+export function fuzzyScore(query: string, name: string): number | null {
+  const q = query.trim().toLowerCase();
+  const n = name.toLowerCase();
+  if (!q) return null;
+
+  const at = n.indexOf(q);
+  if (at === 0) return PREFIX_SCORE;
+  if (at > 0) return SUBSTRING_SCORE;
+
+  let gaps = 0;
+  let pos = 0;
+  for (const ch of q) {
+    const next = n.indexOf(ch, pos);
+    if (next === -1) return null;
+    gaps += next - pos;
+    pos = next + 1;
+  }
+  return 1 / (1 + gaps);
+}
+
+/** Items whose name matches `query`, best match first (ties keep input order). */
+export function searchByName<T extends { name: string }>(query: string, items: readonly T[]): T[] {
+  return items
+    .map((item, i) => ({ item, i, score: fuzzyScore(query, item.name) }))
+    .filter((m): m is { item: T; i: number; score: number } => m.score !== null)
+    .sort((a, b) => b.score - a.score || a.i - b.i)
+    .map((m) => m.item);
+}
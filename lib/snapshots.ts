@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getCompanies, toCompanies, type Company } from './companies';
+import type { SnapshotNav } from './routes';
+
+// Server-only: reads data/snapshots/ with fs while pages are statically generated.
+// Client components receive the companies they need as props.
+
+const SNAPSHOT_DIR = path.join(process.cwd(), 'data', 'snapshots');
+const SNAPSHOT_FILE = /^(\d{4}-\d{2}-\d{2})\.json$/;
+
+export interface Snapshot {
+  /** `YYYY-MM-DD`, or null when no dated snapshot exists yet. */
+  date: string | null;
+  companies: readonly Company[];
+}
+
+const cache = new Map<string, Snapshot>();
+
+/** Dates of every snapshot in `data/snapshots/`, oldest first. */
+export function listSnapshotDates(): string[] {
+  if (!fs.existsSync(SNAPSHOT_DIR)) return [];
+  return fs
+    .readdirSync(SNAPSHOT_DIR)
+    .map((file) => SNAPSHOT_FILE.exec(file)?.[1])
+    .filter((date): date is string => Boolean(date))
+    .sort();
+}
+
+export function getSnapshot(date: string): Snapshot {
+  const cached = cache.get(date);
+  if (cached) return cached;
+
+  const file = path.join(SNAPSHOT_DIR, `${date}.json`);
+  const raw: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const snapshot = { date, companies: toCompanies(raw, `data/snapshots/${date}.json`) };
+  cache.set(date, snapshot);
+  return snapshot;
+}
+
+/**
+ * The snapshot behind the root routes. The fetcher writes `companies.json` and
+ * the dated snapshot together, so the latest date labels `companies.json`.
+ */
+export function getLatestSnapshot(): Snapshot {
+  const dates = listSnapshotDates();
+  return { date: dates.length > 0 ? dates[dates.length - 1] : null, companies: getCompanies() };
+}
+
+/** The snapshot dated right before `date` (or before the latest one when `date` is null). */
+export function getPreviousSnapshot(date: string | null): Snapshot | null {
+  const dates = listSnapshotDates();
+  const index = date ? dates.indexOf(date) : dates.length - 1;
+  return index > 0 ? getSnapshot(dates[index - 1]) : null;
+}
+
+/** What the header and date slider need to know about `date`. */
+export function getSnapshotNav(date: string | null): SnapshotNav {
+  return { date, dates: listSnapshotDates() };
+}
+
+export interface CompanyHistoryPoint {
+  date: string;
+  mrr: number;
+  mom_growth: number;
+  rank: number;
+  /** Number of companies in that snapshot. */
+  of: number;
+}
+
+/** Slugs of every company in the latest data or any dated snapshot. */
+export function listCompanySlugs(): string[] {
+  const slugs = new Set(getCompanies().map((c) => c.slug));
+  for (const date of listSnapshotDates()) {
+    for (const company of getSnapshot(date).companies) {
+      slugs.add(company.slug);
+    }
+  }
+  return Array.from(slugs);
+}
+
+/**
+ * The most recent data for `slug`: the latest snapshot when the company is in
+ * it, otherwise the newest dated snapshot that still lists it.
+ */
+export function findCompany(
+  slug: string,
+): { company: Company; snapshot: Snapshot; isLatest: boolean } | null {
+  const latest = getLatestSnapshot();
+  const inLatest = latest.companies.find((c) => c.slug === slug);
+  if (inLatest) return { company: inLatest, snapshot: latest, isLatest: true };
+
+  for (const date of listSnapshotDates().reverse()) {
+    const snapshot = getSnapshot(date);
+    const company = snapshot.companies.find((c) => c.slug === slug);
+    if (company) return { company, snapshot, isLatest: false };
+  }
+  return null;
+}
+
+/** One point per dated snapshot that lists `slug`, oldest first. */
+export function getCompanyHistory(slug: string): CompanyHistoryPoint[] {
+  const points: CompanyHistoryPoint[] = [];
+  for (const date of listSnapshotDates()) {
+    const { companies } = getSnapshot(date);
+    const company = companies.find((c) => c.slug === slug);
+    if (company) {
+      points.push({
+        date,
+        mrr: company.mrr,
+        mom_growth: company.mom_growth,
+        rank: company.rank,
+        of: companies.length,
+      });
+    }
+  }
+  return points;
+}
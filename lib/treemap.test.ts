@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import snapshot from '../data/companies.json';
+import {
+  buildNestedTreemap,
+  buildPercentTreemap,
+  buildTreemap,
+  buildTreemapTransition,
+  toPercent,
+  type TreemapRect,
+} from './treemap';
+
+const area = (r: TreemapRect) => r.width * r.height;
+
+function overlap(a: TreemapRect, b: TreemapRect): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+// Pairs of tiles that share more than a rounding error of area
+function overlapping(nodes: readonly TreemapRect[]): number {
+  let count = 0;
+  for (let i = 0; i < nodes.length; i += 1) {
+    for (let j = i + 1; j < nodes.length; j += 1) {
+      if (overlap(nodes[i], nodes[j]) > 1e-6) count += 1;
+    }
+  }
+  return count;
+}
+
+function expectInside(inner: TreemapRect, outer: TreemapRect) {
+  const eps = 1e-6;
+  expect(inner.x).toBeGreaterThanOrEqual(outer.x - eps);
+  expect(inner.y).toBeGreaterThanOrEqual(outer.y - eps);
+  expect(inner.x + inner.width).toBeLessThanOrEqual(outer.x + outer.width + eps);
+  expect(inner.y + inner.height).toBeLessThanOrEqual(outer.y + outer.height + eps);
+}
+
+// A long tail, as in the real data: a few large companies and many small ones
+const items = Array.from({ length: 60 }, (_, i) => ({ slug: `c${i}`, mrr: Math.round(500_000 / (i + 1) ** 1.3) }));
+const total = items.reduce((s, c) => s + c.mrr, 0);
+
+describe('buildTreemap', () => {
+  const box = { x: 0, y: 0, width: 1200, height: 700 };
+  const { nodes, tooSmall } = buildTreemap(items, box.width, box.height);
+
+  it('gives every tile an area proportional to its MRR', () => {
+    expect(nodes).toHaveLength(items.length);
+    expect(tooSmall).toHaveLength(0);
+    for (const node of nodes) {
+      expect(area(node) / area(box)).toBeCloseTo(node.mrr / total, 9);
+    }
+  });
+
+  it('fills the container without tiles overlapping or leaving it', () => {
+    expect(nodes.reduce((s, n) => s + area(n), 0)).toBeCloseTo(area(box), 6);
+    for (const node of nodes) expectInside(node, box);
+    expect(overlapping(nodes)).toBe(0);
+  });
+
+  it('sets aside zero MRR and tiles under minSide, without mutating the input', () => {
+    const data = [...items, { slug: 'zero', mrr: 0 }];
+    const copy = structuredClone(data);
+    const layout = buildTreemap(data, box.width, box.height, { minSide: 20 });
+    expect(data).toEqual(copy);
+    expect(layout.tooSmall.map((n) => n.slug)).toContain('zero');
+    expect(layout.nodes.length + layout.tooSmall.length).toBe(data.length);
+    for (const node of layout.nodes) expect(Math.min(node.width, node.height)).toBeGreaterThanOrEqual(20);
+  });
+
+  it('keeps the input order with preserveOrder', () => {
+    const shuffled = [items[5], items[0], items[9], items[2]];
+    const layout = buildTreemap(shuffled, 400, 300, { preserveOrder: true });
+    expect(layout.nodes.map((n) => n.slug)).toEqual(shuffled.map((c) => c.slug));
+  });
+
+  it('lays out the real snapshot without overlaps and with areas matching MRR', () => {
+    const snapshotTotal = snapshot.reduce((s, c) => s + c.mrr, 0);
+    const layout = buildTreemap(snapshot, box.width, box.height);
+    expect(layout.nodes).toHaveLength(snapshot.length);
+    for (const node of layout.nodes) {
+      expectInside(node, box);
+      expect(area(node) / area(box)).toBeCloseTo(node.mrr / snapshotTotal, 9);
+    }
+    expect(overlapping(layout.nodes)).toBe(0);
+  });
+});
+
+describe('buildPercentTreemap', () => {
+  it('returns rects in % of the container', () => {
+    const { nodes } = buildPercentTreemap(items, 1600, 400);
+    expect(nodes.reduce((s, n) => s + area(n), 0)).toBeCloseTo(100 * 100, 6);
+    for (const node of nodes) expectInside(node, { x: 0, y: 0, width: 100, height: 100 });
+  });
+});
+
+describe('buildNestedTreemap', () => {
+  const groups = ['A', 'B', 'C', 'D'].map((name, g) => {
+    const children = items.filter((_, i) => i % 4 === g);
+    return { name, children, mrr: children.reduce((s, c) => s + c.mrr, 0) };
+  });
+  const box = { x: 0, y: 0, width: 1200, height: 700 };
+  const headerHeight = 20;
+  const padding = 2;
+  const layout = buildNestedTreemap(groups, (g) => g.children, box.width, box.height, { headerHeight, padding });
+
+  it('fills the container with the groups', () => {
+    expect(layout).toHaveLength(groups.length);
+    for (const { rect } of layout) expectInside(rect, box);
+    expect(layout.reduce((s, { rect }) => s + area(rect), 0)).toBeCloseTo(area(box), 6);
+    expect(overlapping(layout.map(({ rect }) => rect))).toBe(0);
+  });
+
+  it('keeps tile areas comparable across groups, headers and padding aside', () => {
+    const perMrr = layout.map(({ group, nodes }) => nodes.reduce((s, n) => s + area(n), 0) / group.mrr);
+    expect(Math.max(...perMrr) / Math.min(...perMrr)).toBeLessThan(1.01);
+  });
+
+  it('keeps each group’s tiles inside it and below its header', () => {
+    for (const { rect, header, nodes } of layout) {
+      expect(header).not.toBeNull();
+      for (const node of nodes) {
+        expectInside(node, rect);
+        expect(node.y).toBeGreaterThanOrEqual(rect.y + padding + headerHeight - 1e-6);
+      }
+    }
+  });
+
+  it('keeps tile areas proportional to MRR within a group', () => {
+    for (const { group, nodes } of layout) {
+      expect(nodes).toHaveLength(group.children.length);
+      const tiled = nodes.reduce((s, n) => s + area(n), 0);
+      for (const node of nodes) {
+        expect(area(node) / tiled).toBeCloseTo(node.mrr / group.mrr, 9);
+      }
+    }
+  });
+
+  it('hides the children of a group too small to draw', () => {
+    const nested = buildNestedTreemap(groups, (g) => g.children, box.width, box.height, { headerHeight, minSide: 400 });
+    const hidden = nested.filter((g) => g.rect.width < 400 || g.rect.height < 400);
+    expect(hidden.length).toBeGreaterThan(0);
+    for (const { group, nodes, tooSmall } of hidden) {
+      expect(nodes).toHaveLength(0);
+      expect(tooSmall).toHaveLength(group.children.length);
+    }
+  });
+});
+
+describe('buildTreemapTransition', () => {
+  const from = [
+    { slug: 'a', mrr: 100 },
+    { slug: 'b', mrr: 80 },
+    { slug: 'c', mrr: 30 },
+    { slug: 'd', mrr: 10 },
+    { slug: 'gone', mrr: 40 },
+  ];
+  const to = [
+    { slug: 'b', mrr: 80 },
+    { slug: 'a', mrr: 50 },
+    { slug: 'c', mrr: 30 },
+    { slug: 'd', mrr: 20 },
+    { slug: 'new', mrr: 5 },
+  ];
+  const tiles = buildTreemapTransition(from, to, 1000, 600);
+
+  it('ends on the regular layout, so nothing moves when the animation hands over', () => {
+    const last = tiles.flatMap((t) => (t.to ? [{ slug: t.key, ...toPercent(t.to, 1000, 600) }] : []));
+    const regular = buildPercentTreemap(to, 1000, 600).nodes.map(({ slug, x, y, width, height }) => ({ slug, x, y, width, height }));
+    expect(last).toEqual(regular);
+  });
+
+  it('starts from the old MRR, with entering and leaving tiles collapsed', () => {
+    const bySlug = new Map(tiles.map((t) => [t.key, t]));
+    const fromTotal = from.reduce((s, c) => s + c.mrr, 0);
+    for (const { slug, mrr } of from) {
+      expect(area(bySlug.get(slug)!.from!) / (1000 * 600)).toBeCloseTo(mrr / fromTotal, 9);
+    }
+    expect(bySlug.get('new')!.from).toBeNull();
+    expect(bySlug.get('gone')!.to).toBeNull();
+  });
+});
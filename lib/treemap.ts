@@ -0,0 +1,330 @@
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TreemapNode<T> = T & TreemapRect;
+
+export interface TreemapLayout<T> {
+  /** Tiles large enough to draw, in layout order (largest first unless `preserveOrder`). */
+  nodes: TreemapNode<T>[];
+  /** Tiles whose shorter side falls below `minSide` (including zero-MRR entries). */
+  tooSmall: TreemapNode<T>[];
+}
+
+export interface TreemapOptions {
+  /** Shortest side, in container units, a tile needs to be drawable. */
+  minSide?: number;
+  /**
+   * Lay tiles out in input order instead of sorting by MRR. Callers that
+   * share one order across snapshots get layouts that shift locally when a
+   * value changes instead of reshuffling.
+   */
+  preserveOrder?: boolean;
+}
+
+interface WeightedItem<T> {
+  item: T;
+  area: number;
+}
+
+// Worst aspect ratio of a row laid along a side of the given length (Bruls et al.)
+function worstRatio(areas: number[], side: number): number {
+  const sum = areas.reduce((s, a) => s + a, 0);
+  if (sum <= 0 || side <= 0) return Infinity;
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  const sideSq = side * side;
+  const sumSq = sum * sum;
+  return Math.max((sideSq * max) / sumSq, sumSq / (sideSq * min));
+}
+
+// Lays a row against the shorter side of `rect` and returns the rectangle left over
+function layoutRow<T>(
+  row: WeightedItem<T>[],
+  rect: TreemapRect,
+  isLastRow: boolean,
+  out: TreemapNode<T>[],
+): TreemapRect {
+  const rowArea = row.reduce((s, r) => s + r.area, 0);
+  const vertical = rect.width >= rect.height;
+
+  if (vertical) {
+    // Column along the left edge; the last row takes the full remaining width
+    const columnWidth = isLastRow ? rect.width : rowArea / rect.height;
+    let y = rect.y;
+    row.forEach((r, i) => {
+      const isLast = i === row.length - 1;
+      const height = isLast ? rect.y + rect.height - y : r.area / columnWidth;
+      out.push({ ...r.item, x: rect.x, y, width: columnWidth, height });
+      y += height;
+    });
+    return { x: rect.x + columnWidth, y: rect.y, width: rect.width - columnWidth, height: rect.height };
+  }
+
+  // Row along the top edge; the last row takes the full remaining height
+  const rowHeight = isLastRow ? rect.height : rowArea / rect.width;
+  let x = rect.x;
+  row.forEach((r, i) => {
+    const isLast = i === row.length - 1;
+    const width = isLast ? rect.x + rect.width - x : r.area / rowHeight;
+    out.push({ ...r.item, x, y: rect.y, width, height: rowHeight });
+    x += width;
+  });
+  return { x: rect.x, y: rect.y + rowHeight, width: rect.width, height: rect.height - rowHeight };
+}
+
+/**
+ * Squarified treemap (Bruls, Huizing & van Wijk). Fills the whole
+ * `containerWidth` x `containerHeight` rectangle and gives every tile an area
+ * exactly proportional to its `mrr`. Pure: the input array is not mutated.
+ */
+export function buildTreemap<T extends { mrr: number }>(
+  data: readonly T[],
+  containerWidth: number,
+  containerHeight: number,
+  options: TreemapOptions = {},
+): TreemapLayout<T> {
+  const { minSide = 0, preserveOrder = false } = options;
+  const positive = data.filter((d) => d.mrr > 0);
+  const zero = data.filter((d) => !(d.mrr > 0));
+
+  const totalMRR = positive.reduce((sum, d) => sum + d.mrr, 0);
+  const scale = totalMRR > 0 ? (containerWidth * containerHeight) / totalMRR : 0;
+
+  const items: WeightedItem<T>[] = positive.map((item) => ({ item, area: item.mrr * scale }));
+  if (!preserveOrder) {
+    items.sort((a, b) => b.area - a.area);
+  }
+
+  const placed: TreemapNode<T>[] = [];
+  let rect: TreemapRect = { x: 0, y: 0, width: containerWidth, height: containerHeight };
+  let row: WeightedItem<T>[] = [];
+
+  for (let i = 0; i < items.length; i += 1) {
+    const side = Math.min(rect.width, rect.height);
+    const candidate = [...row, items[i]];
+    if (
+      row.length === 0 ||
+      worstRatio(candidate.map((r) => r.area), side) <= worstRatio(row.map((r) => r.area), side)
+    ) {
+      row = candidate;
+    } else {
+      rect = layoutRow(row, rect, false, placed);
+      row = [items[i]];
+    }
+  }
+  if (row.length > 0) {
+    layoutRow(row, rect, true, placed);
+  }
+
+  const nodes: TreemapNode<T>[] = [];
+  const tooSmall: TreemapNode<T>[] = zero.map((item) => ({ ...item, x: 0, y: 0, width: 0, height: 0 }));
+  for (const node of placed) {
+    if (Math.min(node.width, node.height) < minSide) {
+      tooSmall.push(node);
+    } else {
+      nodes.push(node);
+    }
+  }
+
+  return { nodes, tooSmall };
+}
+
+/** Rescales a rect laid out in a `width` x `height` box to % of that box. */
+export function toPercent<R extends TreemapRect>(rect: R, width: number, height: number): R {
+  return {
+    ...rect,
+    x: (rect.x / width) * 100,
+    y: (rect.y / height) * 100,
+    width: (rect.width / width) * 100,
+    height: (rect.height / height) * 100,
+  };
+}
+
+/**
+ * `buildTreemap` for a container of `width` x `height` px, returned in % of
+ * it for percentage-positioned tiles. Laying out at the real size, rather
+ * than in a 100 x 100 square stretched to fit, keeps tiles square-ish on
+ * any aspect ratio. `minSide` stays in px.
+ */
+export function buildPercentTreemap<T extends { mrr: number }>(
+  data: readonly T[],
+  width: number,
+  height: number,
+  options: TreemapOptions = {},
+): TreemapLayout<T> {
+  const { nodes, tooSmall } = buildTreemap(data, width, height, options);
+  return {
+    nodes: nodes.map((node) => toPercent(node, width, height)),
+    tooSmall: tooSmall.map((node) => toPercent(node, width, height)),
+  };
+}
+
+export interface NestedTreemapOptions extends TreemapOptions {
+  /** Height of the label strip along the top of each group, in container units. */
+  headerHeight: number;
+  /** Inset between a group's edge and its tiles. */
+  padding?: number;
+}
+
+export interface NestedTreemapGroup<G, T> {
+  group: G;
+  /** The whole group, header included. */
+  rect: TreemapRect;
+  /** The label strip, or null when the group is too short to spare one. */
+  header: TreemapRect | null;
+  /** The group's own tiles, all inside `rect`. */
+  nodes: TreemapNode<T>[];
+  tooSmall: TreemapNode<T>[];
+}
+
+const NESTED_FIT_PASSES = 4; // re-layouts that give headers and padding their room on top of the tiles' share
+
+// Splits a group's rect into its header strip and the body its tiles go in
+function groupBody(rect: TreemapRect, headerHeight: number, padding: number) {
+  const body = {
+    x: rect.x + padding,
+    y: rect.y + padding,
+    width: Math.max(rect.width - padding * 2, 0),
+    height: Math.max(rect.height - padding * 2, 0),
+  };
+  // The header only takes space the tiles can spare
+  const header = body.height >= headerHeight * 2 ? { ...body, height: headerHeight } : null;
+  if (header) {
+    body.y += headerHeight;
+    body.height -= headerHeight;
+  }
+  return { body, header };
+}
+
+/**
+ * Two-level treemap: groups are laid out by their total `mrr`, then each
+ * group's children inside it, below a header strip. Children never cross
+ * a group boundary. Each group gets the room its header and padding take on
+ * top of its share, so tile areas stay proportional to `mrr` across groups,
+ * not just within one. Group order and rects come from `buildTreemap`, so
+ * the outer level is as square as the flat treemap.
+ */
+export function buildNestedTreemap<G extends { mrr: number }, T extends { mrr: number }>(
+  groups: readonly G[],
+  childrenOf: (group: G) => readonly T[],
+  containerWidth: number,
+  containerHeight: number,
+  options: NestedTreemapOptions,
+): NestedTreemapGroup<G, T>[] {
+  const { headerHeight, padding = 0, ...inner } = options;
+  // Wrapped, so a group comes back as it went in rather than merged with its rect
+  const layoutGroups = (weight: (group: G) => number) =>
+    buildTreemap(
+      groups.map((group) => ({ group, mrr: weight(group) })),
+      containerWidth,
+      containerHeight,
+      options,
+    );
+
+  // A header or padding takes a larger share of a small group than of a large one; add each group's
+  // overhead to its weight and lay out again, until the rects settle
+  let outer = layoutGroups((group) => group.mrr);
+  const totalMrr = groups.reduce((sum, group) => sum + (group.mrr > 0 ? group.mrr : 0), 0);
+  for (let pass = 0; pass < NESTED_FIT_PASSES && totalMrr > 0; pass += 1) {
+    const overhead = new Map(
+      outer.nodes.map(({ group, ...rect }) => {
+        const { body } = groupBody(rect, headerHeight, padding);
+        return [group, rect.width * rect.height - body.width * body.height];
+      }),
+    );
+    const spare = containerWidth * containerHeight - Array.from(overhead.values()).reduce((s, a) => s + a, 0);
+    if (spare <= 0) break;
+    const areaPerMrr = spare / totalMrr;
+    outer = layoutGroups((group) => (group.mrr > 0 ? group.mrr * areaPerMrr + (overhead.get(group) ?? 0) : 0));
+  }
+
+  // Groups too small to draw keep their children out of sight rather than overlapping others
+  const hidden = outer.tooSmall.map(({ group, x, y, width, height }) => ({
+    group,
+    rect: { x, y, width, height },
+    header: null,
+    nodes: [],
+    tooSmall: childrenOf(group).map((child) => ({ ...child, x, y, width: 0, height: 0 })),
+  }));
+
+  const placed = outer.nodes.map(({ group, x, y, width, height }) => {
+    const rect = { x, y, width, height };
+    const { body, header } = groupBody(rect, headerHeight, padding);
+    const layout = buildTreemap(childrenOf(group), body.width, body.height, inner);
+    const offset = (node: TreemapNode<T>): TreemapNode<T> => ({ ...node, x: node.x + body.x, y: node.y + body.y });
+    return {
+      group,
+      rect,
+      header,
+      nodes: layout.nodes.map(offset),
+      tooSmall: layout.tooSmall.map(offset),
+    };
+  });
+
+  return [...placed, ...hidden];
+}
+
+export interface TreemapTransitionTile<T> {
+  key: string;
+  /** The item as of `to`, or as of `from` for tiles that leave. */
+  item: T;
+  /** Null when the tile enters (absent or zero-MRR in `from`). */
+  from: TreemapRect | null;
+  /** Null when the tile leaves (absent or zero-MRR in `to`). */
+  to: TreemapRect | null;
+}
+
+/**
+ * Pairs the tiles of two snapshots by `slug` for an animated transition.
+ * `to` is laid out as `buildTreemap` lays it out on its own, so the last
+ * frame is the regular layout; `from` is laid out in that same order, with
+ * companies that leave slotted in by their old MRR, so a company keeps
+ * roughly the same neighbourhood in both.
+ */
+export function buildTreemapTransition<T extends { mrr: number; slug: string }>(
+  from: readonly T[],
+  to: readonly T[],
+  containerWidth: number,
+  containerHeight: number,
+): TreemapTransitionTile<T>[] {
+  const fromBySlug = new Map(from.map((item) => [item.slug, item]));
+  const toBySlug = new Map(to.map((item) => [item.slug, item]));
+  const weight = (slug: string) => {
+    const mrr = toBySlug.get(slug)?.mrr ?? 0;
+    return mrr > 0 ? mrr : fromBySlug.get(slug)?.mrr ?? 0;
+  };
+
+  // A stable sort of `to` first keeps its ties in input order, as buildTreemap's own sort does
+  const slugs = Array.from(new Set([...toBySlug.keys(), ...fromBySlug.keys()])).sort(
+    (a, b) => weight(b) - weight(a),
+  );
+  const order = new Map(slugs.map((slug, i) => [slug, i]));
+  const inSharedOrder = (list: readonly T[]) =>
+    [...list].sort((a, b) => (order.get(a.slug) ?? 0) - (order.get(b.slug) ?? 0));
+
+  const rectsBySlug = ({ nodes, tooSmall }: TreemapLayout<T>) => {
+    const rects = new Map<string, TreemapRect>();
+    for (const node of [...nodes, ...tooSmall]) {
+      if (node.width > 0 && node.height > 0) {
+        rects.set(node.slug, { x: node.x, y: node.y, width: node.width, height: node.height });
+      }
+    }
+    return rects;
+  };
+
+  const fromRects = rectsBySlug(
+    buildTreemap(inSharedOrder(from), containerWidth, containerHeight, { preserveOrder: true }),
+  );
+  const toRects = rectsBySlug(buildTreemap(to, containerWidth, containerHeight));
+
+  return slugs.map((slug) => ({
+    key: slug,
+    item: (toBySlug.get(slug) ?? fromBySlug.get(slug)) as T,
+    from: fromRects.get(slug) ?? null,
+    to: toRects.get(slug) ?? null,
+  }));
+}
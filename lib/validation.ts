@@ -0,0 +1,177 @@
+import type { CompanyRecord } from './companies';
+import { slugFromLink } from './links';
+
+// MoM growth is stored as a decimal (0.04 = +4%). A company cannot lose more
+// than all of its revenue, and anything past +100,000% is a unit or parsing bug.
+const MIN_MOM_GROWTH = -1;
+const MAX_MOM_GROWTH = 1000;
+
+// Plausible but worth a second look before shipping
+const OUTLIER_MOM_GROWTH = 10; // +1,000% MoM
+const OUTLIER_MIN_MRR = 1; // under $1 / mo
+const PLACEHOLDER_NAMES = ['Unnamed Company'];
+
+// Logos mirrored by the fetch script are served from public/logos/
+const LOCAL_LOGO = /^\/logos\/[\w.-]+$/;
+
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export type ValidationRule =
+  | 'shape'
+  | 'name'
+  | 'placeholder-name'
+  | 'mrr'
+  | 'low-mrr'
+  | 'mom-growth'
+  | 'growth-outlier'
+  | 'logo'
+  | 'missing-logo'
+  | 'link'
+  | 'duplicate-slug'
+  | 'details';
+
+export interface ValidationIssue {
+  /** Position in the snapshot array, or -1 for issues with the file as a whole. */
+  index: number;
+  name: string;
+  rule: ValidationRule;
+  message: string;
+}
+
+export interface ValidationReport {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface ValidationOptions {
+  /** Checks that a mirrored logo (`/logos/...`) was actually written; skipped when absent. */
+  assetExists?: (publicPath: string) => boolean;
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/** Problems with the optional detail fields; absent fields are fine, present ones must be well-formed. */
+function detailProblems(c: Partial<Record<keyof CompanyRecord, unknown>>): string[] {
+  const problems: string[] = [];
+  const isText = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+
+  if (c.category !== undefined && !isText(c.category)) problems.push('category is not a non-empty string');
+  if (c.founder_handle !== undefined && !(isText(c.founder_handle) && !String(c.founder_handle).startsWith('@'))) {
+    problems.push('founder_handle is not a handle without the @');
+  }
+  if (c.country !== undefined && !(typeof c.country === 'string' && COUNTRY_CODE.test(c.country))) {
+    problems.push(`country is not a two-letter code (${JSON.stringify(c.country)})`);
+  }
+  if (c.arr !== undefined && !isAmount(c.arr)) problems.push(`arr is not a non-negative number (${JSON.stringify(c.arr)})`);
+  if (c.asking_price !== undefined && !isAmount(c.asking_price)) {
+    problems.push(`asking_price is not a non-negative number (${JSON.stringify(c.asking_price)})`);
+  }
+  if (c.for_sale !== undefined && typeof c.for_sale !== 'boolean') problems.push('for_sale is not a boolean');
+  if (c.revenue_history !== undefined) {
+    const points = Array.isArray(c.revenue_history) ? (c.revenue_history as unknown[]) : null;
+    const bad = points?.findIndex((point) => {
+      const p = point as { month?: unknown; mrr?: unknown } | null;
+      return typeof p !== 'object' || p === null || typeof p.month !== 'string' || !MONTH.test(p.month) || !isAmount(p.mrr);
+    });
+    if (!points) {
+      problems.push('revenue_history is not an array');
+    } else if (bad !== undefined && bad >= 0) {
+      problems.push(`revenue_history entry ${bad} is not a { month: "YYYY-MM", mrr } point`);
+    }
+  }
+  return problems;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a parsed companies snapshot. Errors make the snapshot unusable
+ * (the build must fail); warnings are anomalies worth reporting.
+ */
+export function validateCompanies(raw: unknown, options: ValidationOptions = {}): ValidationReport {
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  if (!Array.isArray(raw)) {
+    errors.push({ index: -1, name: '', rule: 'shape', message: 'snapshot must be an array of companies' });
+    return { errors, warnings };
+  }
+
+  const seenSlugs = new Map<string, number>();
+
+  raw.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push({ index, name: '', rule: 'shape', message: 'entry is not an object' });
+      return;
+    }
+
+    const c = entry as Partial<Record<keyof CompanyRecord, unknown>>;
+    const name = typeof c.name === 'string' ? c.name.trim() : '';
+    const error = (rule: ValidationRule, message: string) => errors.push({ index, name, rule, message });
+    const warn = (rule: ValidationRule, message: string) => warnings.push({ index, name, rule, message });
+
+    if (!name) {
+      error('name', 'name is empty');
+    } else if (PLACEHOLDER_NAMES.includes(name)) {
+      warn('placeholder-name', `placeholder name "${name}"`);
+    }
+
+    if (typeof c.mrr !== 'number' || !Number.isFinite(c.mrr)) {
+      error('mrr', `mrr is not a number (${JSON.stringify(c.mrr)})`);
+    } else if (c.mrr < 0) {
+      error('mrr', `mrr is negative (${c.mrr})`);
+    } else if (c.mrr < OUTLIER_MIN_MRR) {
+      warn('low-mrr', `mrr is under $${OUTLIER_MIN_MRR} (${c.mrr})`);
+    }
+
+    if (typeof c.mom_growth !== 'number' || !Number.isFinite(c.mom_growth)) {
+      error('mom-growth', `mom_growth is not a number (${JSON.stringify(c.mom_growth)})`);
+    } else if (c.mom_growth < MIN_MOM_GROWTH || c.mom_growth > MAX_MOM_GROWTH) {
+      error('mom-growth', `mom_growth ${c.mom_growth} is outside [${MIN_MOM_GROWTH}, ${MAX_MOM_GROWTH}]`);
+    } else if (c.mom_growth > OUTLIER_MOM_GROWTH) {
+      warn('growth-outlier', `mom_growth ${c.mom_growth} is above ${OUTLIER_MOM_GROWTH}`);
+    }
+
+    if (typeof c.logo !== 'string') {
+      error('logo', 'logo is not a string');
+    } else if (!c.logo) {
+      warn('missing-logo', 'missing logo');
+    } else if (LOCAL_LOGO.test(c.logo)) {
+      if (options.assetExists && !options.assetExists(c.logo)) {
+        error('logo', `logo file is missing (public${c.logo})`);
+      }
+    } else if (!isHttpUrl(c.logo)) {
+      error('logo', `logo is not a valid URL or mirrored logo path (${c.logo})`);
+    }
+
+    if (typeof c.link !== 'string' || !isHttpUrl(c.link)) {
+      error('link', `link is not a valid URL (${JSON.stringify(c.link)})`);
+    } else {
+      const slug = slugFromLink(c.link);
+      const firstIndex = seenSlugs.get(slug);
+      if (!slug) {
+        error('link', `link has no slug (${c.link})`);
+      } else if (firstIndex !== undefined) {
+        error('duplicate-slug', `duplicate slug "${slug}" (first seen at entry ${firstIndex})`);
+      } else {
+        seenSlugs.set(slug, index);
+      }
+    }
+
+    for (const problem of detailProblems(c)) {
+      error('details', problem);
+    }
+  });
+
+  return { errors, warnings };
+}
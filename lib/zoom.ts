@@ -0,0 +1,65 @@
+import type { TreemapRect } from './treemap';
+
+// Zoom and pan of a view laid out in % of its container (0–100 on both
+// axes), like the treemap. `x`/`y` are where the content's top-left corner
+// sits on screen, in % of the container, so a tile at `rect` is drawn at
+// `rect * scale + (x, y)`.
+
+export interface Zoom {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 64;
+
+const FULL = 100;
+
+/** Keeps the scale in range and the content covering the whole container. */
+export function clampZoom(zoom: Zoom): Zoom {
+  const scale = Math.min(Math.max(zoom.scale, 1), MAX_ZOOM);
+  const min = FULL - FULL * scale;
+  return {
+    scale,
+    x: Math.min(Math.max(zoom.x, min), 0),
+    y: Math.min(Math.max(zoom.y, min), 0),
+  };
+}
+
+/** Zooms by `factor` keeping the screen point (`cx`, `cy`), in % of the container, fixed. */
+export function zoomAround(zoom: Zoom, factor: number, cx: number, cy: number): Zoom {
+  const scale = Math.min(Math.max(zoom.scale * factor, 1), MAX_ZOOM);
+  const ratio = scale / zoom.scale;
+  return clampZoom({ scale, x: cx - (cx - zoom.x) * ratio, y: cy - (cy - zoom.y) * ratio });
+}
+
+/** Moves the content by (`dx`, `dy`) % of the container. */
+export function panBy(zoom: Zoom, dx: number, dy: number): Zoom {
+  return clampZoom({ scale: zoom.scale, x: zoom.x + dx, y: zoom.y + dy });
+}
+
+/** Centres the content point (`cx`, `cy`), in % of the content, keeping the scale. */
+export function centerOn(zoom: Zoom, cx: number, cy: number): Zoom {
+  return clampZoom({ scale: zoom.scale, x: FULL / 2 - cx * zoom.scale, y: FULL / 2 - cy * zoom.scale });
+}
+
+/** Where `rect` is drawn on screen, in % of the container. */
+export function zoomRect(rect: TreemapRect, zoom: Zoom): TreemapRect {
+  return {
+    x: rect.x * zoom.scale + zoom.x,
+    y: rect.y * zoom.scale + zoom.y,
+    width: rect.width * zoom.scale,
+    height: rect.height * zoom.scale,
+  };
+}
+
+/** The part of the content in view, in % of the content. */
+export function visibleArea(zoom: Zoom): TreemapRect {
+  return { x: -zoom.x / zoom.scale, y: -zoom.y / zoom.scale, width: FULL / zoom.scale, height: FULL / zoom.scale };
+}
+
+/** Whether a screen rect (from `zoomRect`) overlaps the container at all. */
+export function isOnScreen(rect: TreemapRect): boolean {
+  return rect.x < FULL && rect.y < FULL && rect.x + rect.width > 0 && rect.y + rect.height > 0;
+}
@@ -0,0 +1,103 @@
+/*
+  Open Graph image generator.
+  - Runs before `next build` (see the `prebuild` script); `output: 'export'`
+    cannot serve image routes, so the PNGs are written to public/og/ instead
+  - One image per view of the latest data and of every dated snapshot, and
+    one per company page, drawn from the same layouts the pages use
+  - Renders through next/og (Satori + resvg) with its bundled font, offline
+  - next/og never frees resvg's wasm memory, which runs out after a few
+    hundred images, so each batch renders in a fresh child process
+
+  Usage:
+    npm run og
+*/
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { ImageResponse } from 'next/og';
+import { createElement, type ReactElement } from 'react';
+import { OgCompanyImage, OgViewImage } from '../components/OgImage';
+import { companyOgImage, OG_DIR, OG_SIZE, viewOgImage } from '../lib/og';
+import { VIEWS } from '../lib/routes';
+import { findCompany, getLatestSnapshot, getSnapshot, listCompanySlugs, listSnapshotDates } from '../lib/snapshots';
+
+const PUBLIC_DIR = path.resolve(__dirname, '../public');
+const BATCH_SIZE = 200;
+
+interface OgJob {
+  /** Path under public/, e.g. /og/company/acme.png. */
+  publicPath: string;
+  render: () => ReactElement | null;
+}
+
+// Deterministic, so a batch process rebuilds the same list and picks its slice by index
+function listJobs(): OgJob[] {
+  const latest = getLatestSnapshot();
+  const snapshots = [
+    { date: null, companies: latest.companies, label: latest.date },
+    ...listSnapshotDates().map((date) => ({ date, companies: getSnapshot(date).companies, label: date })),
+  ];
+  const views = snapshots.flatMap(({ date, companies, label }) =>
+    VIEWS.map(({ id }) => ({
+      publicPath: viewOgImage(id, date),
+      render: () => createElement(OgViewImage, { view: id, date: label, companies }),
+    })),
+  );
+  const companies = listCompanySlugs().map((slug) => ({
+    publicPath: companyOgImage(slug),
+    render: () => {
+      const found = findCompany(slug);
+      if (!found) return null;
+      return createElement(OgCompanyImage, {
+        company: found.company,
+        companies: found.snapshot.companies,
+        date: found.snapshot.date,
+      });
+    },
+  }));
+  return [...views, ...companies];
+}
+
+async function renderBatch(jobs: readonly OgJob[]) {
+  for (const { publicPath, render } of jobs) {
+    const element = render();
+    if (!element) continue;
+    const file = path.join(PUBLIC_DIR, publicPath);
+    const png = Buffer.from(await new ImageResponse(element, OG_SIZE).arrayBuffer());
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, png);
+  }
+}
+
+async function main() {
+  const jobs = listJobs();
+  const batchStart = process.argv[2];
+  if (batchStart !== undefined) {
+    const start = Number(batchStart);
+    await renderBatch(jobs.slice(start, start + BATCH_SIZE));
+    return;
+  }
+
+  fs.rmSync(path.join(PUBLIC_DIR, OG_DIR), { recursive: true, force: true });
+  const started = Date.now();
+  for (let start = 0; start < jobs.length; start += BATCH_SIZE) {
+    const child = spawnSync(process.execPath, [require.resolve('ts-node/dist/bin'), __filename, String(start)], {
+      stdio: 'inherit',
+    });
+    if (child.status !== 0) {
+      throw new Error(`batch starting at image ${start} exited with ${child.status ?? child.signal}`);
+    }
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(
+    `Wrote ${jobs.length} Open Graph images to public/${OG_DIR}/ in ${((Date.now() - started) / 1000).toFixed(1)}s`,
+  );
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error('✗ Open Graph image generation failed:', err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,174 @@
+/*
+  GridMRR command line.
+  - `ingest` reads listings from one source (the TrustMRR API, a saved
+    listing page or a CSV), normalizes and dedupes them, mirrors the logos
+    and writes a snapshot
+  - Every source goes through the same normalize → dedupe → logos → validate
+    → write steps (scripts/ingest/); nothing is written if validation fails
+  - API pages are fetched a few at a time, retried on 429 and 5xx, and
+    checkpointed, so an interrupted or partly failed run resumes; a run
+    that still lost pages reports them and writes nothing
+  - `--record` saves the raw API pages; `--input` replays them, and
+    `serve-recording` serves them as a mock API for `--api-url`
+  - Fixtures in scripts/ingest/fixtures/ run the whole pipeline offline
+
+  Usage:
+    npm run gridmrr -- ingest --source <api|html|csv> [--input path] [--out file] [--no-logos] [--dry-run]
+    npm run gridmrr -- serve-recording <dir> [--port 8787]
+    npm run fetch                         (ingest --source api)
+    npm run scrape -- --input page.html   (ingest --source html)
+*/
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { validateCompanies } from '../lib/validation';
+import { mirrorLogos, pruneLogos } from './ingest/logos';
+import { normalizeListings } from './ingest/normalize';
+import { serveRecording } from './ingest/recording';
+import { findSource, SOURCES } from './ingest/sources';
+import { DEFAULT_CHECKPOINT, DEFAULT_CONCURRENCY } from './ingest/sources/api';
+import { writeCompaniesJson } from './ingest/write';
+
+const PUBLIC_DIR = path.resolve(__dirname, '../public');
+const MAX_LISTED = 5; // skipped listings and errors listed before summarizing
+const DEFAULT_PORT = 8787;
+
+const USAGE = `Usage: gridmrr ingest --source <${SOURCES.map((s) => s.name).join('|')}> [options]
+       gridmrr serve-recording <dir> [--port ${DEFAULT_PORT}]
+
+Sources:
+${SOURCES.map((s) => `  ${s.name.padEnd(6)}${s.description}`).join('\n')}
+
+Options:
+  --input <path>    Read the source from a file (or, for api, a recording directory) instead of the network
+  --record <dir>    Save the raw API pages to <dir> for replaying with --input
+  --api-url <url>   Call this search endpoint instead of TrustMRR's, e.g. serve-recording
+  --concurrency <n> API pages fetched at the same time (default: ${DEFAULT_CONCURRENCY})
+  --checkpoint <file>
+                    Where an API run saves its progress (default: ${path.relative(process.cwd(), DEFAULT_CHECKPOINT)})
+  --allow-partial   Write what an API run fetched even if some pages failed
+  --out <file>      Write only this file (default: data/companies.json and data/snapshots/<today>.json)
+  --no-logos        Keep the remote logo URLs instead of mirroring them into public/logos/
+  --dry-run         Run every step but writing
+  --help            Show this help`;
+
+function log(message: string) {
+  // eslint-disable-next-line no-console
+  console.log(message);
+}
+
+function listSome(lines: string[]) {
+  for (const line of lines.slice(0, MAX_LISTED)) log(`    ${line}`);
+  if (lines.length > MAX_LISTED) log(`    … and ${lines.length - MAX_LISTED} more`);
+}
+
+async function ingest(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      source: { type: 'string' },
+      input: { type: 'string' },
+      record: { type: 'string' },
+      'api-url': { type: 'string' },
+      concurrency: { type: 'string' },
+      checkpoint: { type: 'string' },
+      'allow-partial': { type: 'boolean', default: false },
+      out: { type: 'string' },
+      'no-logos': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    log(USAGE);
+    return;
+  }
+  const source = values.source ? findSource(values.source) : undefined;
+  if (!source) {
+    throw new Error(`unknown or missing --source${values.source ? ` "${values.source}"` : ''}\n\n${USAGE}`);
+  }
+
+  const concurrency = values.concurrency === undefined ? null : Number(values.concurrency);
+  if (concurrency !== null && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+    throw new Error(`--concurrency must be a whole number of at least 1, got "${values.concurrency}"`);
+  }
+
+  log(`Reading listings from the ${source.name} source${values.input ? ` (${values.input})` : ''}...`);
+  const listings = await source.read({
+    input: values.input ?? null,
+    record: values.record ?? null,
+    apiUrl: values['api-url'] ?? null,
+    concurrency,
+    checkpoint: values.checkpoint ?? null,
+    allowPartial: values['allow-partial'] ?? false,
+  });
+  const { companies: normalized, skipped, duplicates } = normalizeListings(listings);
+
+  log(`Read ${listings.length} listings: ${normalized.length} kept, ${skipped.length} skipped, ${duplicates} duplicates`);
+  if (skipped.length > 0) {
+    listSome(skipped.map(({ listing, reason }) => `${listing.name.trim() || '(unnamed)'}: ${reason}`));
+  }
+  if (normalized.length === 0) {
+    throw new Error('no companies left to write');
+  }
+
+  const companies = values['no-logos'] || values['dry-run'] ? normalized : await mirrorLogos(normalized);
+
+  const { errors, warnings } = validateCompanies(companies, {
+    assetExists: (publicPath) => fs.existsSync(path.join(PUBLIC_DIR, publicPath)),
+  });
+  if (warnings.length > 0) {
+    log(`${warnings.length} validation warnings (see npm run validate)`);
+  }
+  if (errors.length > 0) {
+    listSome(errors.map((error) => `#${error.index} ${error.name}: ${error.message}`));
+    throw new Error(`${errors.length} validation errors; nothing written`);
+  }
+
+  if (values['dry-run']) {
+    log(`\n✓ Dry run: ${companies.length} companies would be written`);
+    return;
+  }
+  const files = await writeCompaniesJson(companies, values.out ?? null);
+  log(`\n✓ Wrote ${companies.length} companies to ${files.map((file) => path.relative(process.cwd(), file)).join(' and ')}`);
+  if (!values.out && !values['no-logos']) {
+    const pruned = await pruneLogos();
+    if (pruned > 0) log(`Removed ${pruned} logos no snapshot uses any more`);
+  }
+}
+
+// Runs until interrupted
+async function serve(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { port: { type: 'string', default: String(DEFAULT_PORT) } },
+  });
+  const [dir] = positionals;
+  if (!dir) {
+    throw new Error(`serve-recording needs a recording directory\n\n${USAGE}`);
+  }
+  const port = Number(values.port);
+  await serveRecording(path.resolve(dir), port);
+  log(`Serving the recording in ${dir} at http://localhost:${port}/api/search (Ctrl-C to stop)`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'ingest') {
+    await ingest(args);
+  } else if (command === 'serve-recording') {
+    await serve(args);
+  } else if (!command || command === 'help' || command === '--help') {
+    log(USAGE);
+  } else {
+    throw new Error(`unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error('✗', (err as Error).message);
+  process.exitCode = 1;
+});
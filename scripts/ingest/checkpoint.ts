@@ -0,0 +1,78 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { TrustMrrStartup } from './sources/api';
+
+// The API orders pages by revenue, so pages fetched much earlier no longer
+// line up with fresh ones: companies would show up twice or not at all
+const MAX_CHECKPOINT_AGE_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * The pages of an API run fetched so far. Saved after every page, so an
+ * interrupted or partly failed run picks up where it stopped; deleted once
+ * a run gets every page.
+ */
+export interface Checkpoint {
+  /** The run it belongs to; a checkpoint for another endpoint or page size is ignored. */
+  apiUrl: string;
+  limit: number;
+  /** When the run fetched its first page (ISO); an older checkpoint than MAX_CHECKPOINT_AGE_MS is discarded. */
+  startedAt: string;
+  totalPages: number;
+  total: number;
+  /** Startups by page number. */
+  pages: Record<string, TrustMrrStartup[]>;
+}
+
+/** The checkpoint in `file` if it belongs to this run and is recent; a stale one is deleted. */
+export async function loadCheckpoint(
+  file: string,
+  apiUrl: string,
+  limit: number,
+  now = Date.now(),
+): Promise<Checkpoint | null> {
+  let checkpoint: Checkpoint;
+  try {
+    checkpoint = JSON.parse(await fs.readFile(file, 'utf8')) as Checkpoint;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`could not read the checkpoint ${file}: ${(err as Error).message}`);
+  }
+  if (checkpoint.apiUrl !== apiUrl || checkpoint.limit !== limit) return null;
+
+  const age = now - Date.parse(checkpoint.startedAt);
+  if (!(age >= 0 && age <= MAX_CHECKPOINT_AGE_MS)) {
+    // eslint-disable-next-line no-console
+    console.log(`Discarding the checkpoint from ${checkpoint.startedAt ?? 'an unknown time'}: too old to resume`);
+    await clearCheckpoint(file);
+    return null;
+  }
+  return checkpoint;
+}
+
+/**
+ * Saves checkpoints one at a time, each to a temporary file renamed over
+ * the last, so a run killed mid-write leaves the previous one intact. A
+ * failed save is only reported: the pages are fetched all the same, and
+ * the next save writes them again.
+ */
+export function checkpointWriter(file: string): (checkpoint: Checkpoint) => Promise<void> {
+  let queue = Promise.resolve();
+  return (checkpoint) => {
+    const json = JSON.stringify(checkpoint);
+    queue = queue.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(`${file}.tmp`, json, 'utf8');
+        await fs.rename(`${file}.tmp`, file);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`⚠ Could not save the checkpoint ${file}: ${(err as Error).message}`);
+      }
+    });
+    return queue;
+  };
+}
+
+export async function clearCheckpoint(file: string): Promise<void> {
+  await fs.rm(file, { force: true });
+}
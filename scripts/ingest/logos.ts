@@ -0,0 +1,210 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import type { CompanyRecord } from '../../lib/companies';
+import { slugFromLink } from '../../lib/links';
+import { runPool } from './pool';
+
+const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+const DATA_DIR = path.resolve(__dirname, '../../data');
+const LOGO_DIR = 'logos'; // served as /logos/<slug>.<ext>
+const LOGO_SIZE = 96; // px; tiles show logos at up to 32px, so this covers 3x screens
+const LOGO_QUALITY = 80;
+const LOGO_TIMEOUT_MS = 10_000;
+const LOGO_MAX_BYTES = 5 * 1024 * 1024;
+const LOGO_CONCURRENCY = 8;
+const MAX_LISTED = 10; // failed downloads listed before summarizing
+const MAX_SVG_DENSITY = 2400; // dpi; enough to render a 3px-wide SVG at LOGO_SIZE
+const LOGO_EXTS = ['svg', 'webp'] as const;
+
+type ImageType = 'png' | 'jpeg' | 'webp' | 'avif' | 'svg';
+
+type LogoExt = (typeof LOGO_EXTS)[number];
+
+interface LogoFile {
+  ext: LogoExt;
+  data: Buffer | string;
+}
+
+interface MirroredLogo {
+  company: CompanyRecord;
+  avatar: boolean;
+  /** A failed download left the logo from an earlier fetch in place. */
+  kept: boolean;
+  error: string | null;
+}
+
+/**
+ * Identifies an image by its leading bytes rather than trusting the URL or
+ * the Content-Type, which image hosts often get wrong.
+ */
+function sniffImageType(buffer: Buffer): ImageType | null {
+  const head = buffer.subarray(0, 16);
+  if (head[0] === 0x89 && head.toString('latin1', 1, 4) === 'PNG') return 'png';
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return 'jpeg';
+  if (head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  if (head.toString('latin1', 4, 12) === 'ftypavif') return 'avif';
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(buffer.toString('utf8', 0, 1024))) return 'svg';
+  return null;
+}
+
+async function downloadLogo(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > LOGO_MAX_BYTES) {
+    throw new Error(`larger than ${LOGO_MAX_BYTES} bytes`);
+  }
+  return buffer;
+}
+
+/**
+ * Turns a downloaded logo into the file to serve: shrunk to fit LOGO_SIZE
+ * (never enlarged) and re-encoded as WebP. SVGs are rasterized too rather
+ * than served as markup from our origin, where script in them would run.
+ */
+async function encodeLogo(buffer: Buffer): Promise<LogoFile> {
+  const type = sniffImageType(buffer);
+  if (!type) throw new Error('unsupported image format');
+
+  let image = sharp(buffer);
+  if (type === 'svg') {
+    // Rendered at the density that makes it LOGO_SIZE, so a small viewBox comes out sharp rather than tiny
+    const { width = LOGO_SIZE, height = LOGO_SIZE } = await image.metadata();
+    const density = Math.min((72 * LOGO_SIZE) / Math.max(width, height, 1), MAX_SVG_DENSITY);
+    image = sharp(buffer, { density });
+  }
+  const data = await image
+    .resize({ width: LOGO_SIZE, height: LOGO_SIZE, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: LOGO_QUALITY })
+    .toBuffer();
+  return { ext: 'webp', data };
+}
+
+function logoPath(slug: string, ext: LogoExt): string {
+  return `/${LOGO_DIR}/${slug}.${ext}`;
+}
+
+/** The logo an earlier fetch stored for `slug`, if any. */
+async function existingLogo(slug: string): Promise<string | null> {
+  for (const ext of LOGO_EXTS) {
+    try {
+      await fs.access(path.join(PUBLIC_DIR, logoPath(slug, ext)));
+      return logoPath(slug, ext);
+    } catch {
+      // not stored with this extension
+    }
+  }
+  return null;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+/** Up to two initials: the first letters of the first two words, or of the name. */
+function initialsOf(name: string): string {
+  const [first = '?', second] = name.match(/[\p{L}\p{N}]+/gu) ?? [];
+  const letters = second ? [first[0], second[0]] : Array.from(first).slice(0, 2);
+  return letters.join('').toUpperCase();
+}
+
+/** An initials avatar whose colour comes from a hash of the name, so it is stable across fetches. */
+function avatarSvg(name: string): string {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (const ch of name) {
+    hash = Math.imul(hash ^ (ch.codePointAt(0) ?? 0), 0x01000193) >>> 0;
+  }
+  const hue = hash % 360;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${LOGO_SIZE}" height="${LOGO_SIZE}" viewBox="0 0 ${LOGO_SIZE} ${LOGO_SIZE}">`,
+    `<rect width="${LOGO_SIZE}" height="${LOGO_SIZE}" rx="20" fill="hsl(${hue}, 55%, 52%)"/>`,
+    `<text x="50%" y="50%" dy="0.35em" text-anchor="middle" fill="#fff" font-size="40" font-weight="700"`,
+    ` font-family="system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif">${escapeXml(initialsOf(name))}</text>`,
+    '</svg>\n',
+  ].join('');
+}
+
+/**
+ * Stores the company's logo under public/logos/ and points `logo` at it.
+ * A failed download or decode keeps the logo stored by an earlier fetch, as
+ * the failure is often temporary; without one it falls back to the initials
+ * avatar.
+ */
+async function mirrorLogo(company: CompanyRecord): Promise<MirroredLogo> {
+  const slug = slugFromLink(company.link);
+  let file: LogoFile | null = null;
+  let error: string | null = null;
+
+  if (company.logo) {
+    try {
+      file = await encodeLogo(await downloadLogo(company.logo));
+    } catch (err) {
+      error = (err as Error).message;
+      const existing = await existingLogo(slug);
+      if (existing) return { company: { ...company, logo: existing }, avatar: false, kept: true, error };
+    }
+  }
+  const avatar = !file;
+  const written = file ?? { ext: 'svg', data: avatarSvg(company.name) };
+
+  const publicPath = logoPath(slug, written.ext);
+  await fs.writeFile(path.join(PUBLIC_DIR, publicPath), written.data);
+  // A logo that switched between SVG and bitmap leaves the old file behind otherwise
+  for (const ext of LOGO_EXTS) {
+    if (ext !== written.ext) await fs.rm(path.join(PUBLIC_DIR, logoPath(slug, ext)), { force: true });
+  }
+  return { company: { ...company, logo: publicPath }, avatar, kept: false, error };
+}
+
+/**
+ * Deletes the logos that neither data/companies.json nor any snapshot in
+ * data/snapshots/ points at, such as those of companies that dropped out
+ * before the day's snapshot was replaced. Older snapshots still show the
+ * companies they list, so their logos stay. Returns how many were deleted.
+ */
+export async function pruneLogos(): Promise<number> {
+  const snapshotDir = path.join(DATA_DIR, 'snapshots');
+  const snapshots = (await fs.readdir(snapshotDir).catch(() => [] as string[]))
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.join(snapshotDir, file));
+  const used = new Set<string>();
+  for (const file of [path.join(DATA_DIR, 'companies.json'), ...snapshots]) {
+    const companies = JSON.parse(await fs.readFile(file, 'utf8')) as CompanyRecord[];
+    for (const { logo } of companies) {
+      if (logo?.startsWith(`/${LOGO_DIR}/`)) used.add(path.basename(logo));
+    }
+  }
+
+  const stale = (await fs.readdir(path.join(PUBLIC_DIR, LOGO_DIR)).catch(() => [] as string[])).filter(
+    (name) => LOGO_EXTS.some((ext) => name.endsWith(`.${ext}`)) && !used.has(name),
+  );
+  await Promise.all(stale.map((name) => fs.rm(path.join(PUBLIC_DIR, LOGO_DIR, name), { force: true })));
+  return stale.length;
+}
+
+/**
+ * Mirrors every logo into public/logos/ (resized to 96px WebP, or an
+ * initials avatar) and returns the companies pointing at the local files.
+ */
+export async function mirrorLogos(companies: readonly CompanyRecord[]): Promise<CompanyRecord[]> {
+  await fs.mkdir(path.join(PUBLIC_DIR, LOGO_DIR), { recursive: true });
+  // A few downloads at a time: fast enough, and gentle on the image hosts
+  const results = await runPool(companies.length, LOGO_CONCURRENCY, (index) => mirrorLogo(companies[index]));
+
+  const avatars = results.filter((r) => r.avatar).length;
+  const kept = results.filter((r) => r.kept).length;
+  const failed = results.filter((r) => r.error);
+  // eslint-disable-next-line no-console
+  console.log(
+    `Mirrored ${results.length - avatars} logos to public/${LOGO_DIR}/, ` +
+      `${avatars} initials avatars (${failed.length} downloads failed, ${kept} kept the previous logo)`,
+  );
+  for (const { company, error } of failed.slice(0, MAX_LISTED)) {
+    // eslint-disable-next-line no-console
+    console.log(`  ⚠ ${company.name}: ${error}`);
+  }
+  return results.map((r) => r.company);
+}
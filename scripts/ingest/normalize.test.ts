@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeListings, parseMoney, parsePercent } from './normalize';
+import type { RawListing } from './types';
+
+const listing = (overrides: Partial<RawListing>): RawListing => ({
+  name: 'Acme',
+  logo: '',
+  link: 'https://trustmrr.com/startup/acme',
+  mrr: 1000,
+  mom_growth: 0.1,
+  ...overrides,
+});
+
+describe('parseMoney', () => {
+  it('reads formatted amounts', () => {
+    expect(parseMoney('$1,234.5')).toBe(1234.5);
+    expect(parseMoney('US$ 40')).toBe(40);
+    expect(parseMoney('n/a')).toBeNull();
+    expect(parseMoney('')).toBeNull();
+  });
+
+  it('keeps the sign', () => {
+    expect(parseMoney('-$12')).toBe(-12);
+    expect(parseMoney('$-1,200')).toBe(-1200);
+    expect(parseMoney('−$3.5')).toBe(-3.5);
+  });
+});
+
+describe('parsePercent', () => {
+  it('reads percentages as decimals', () => {
+    expect(parsePercent('+4.5%')).toBeCloseTo(0.045);
+    expect(parsePercent('-12%')).toBeCloseTo(-0.12);
+    expect(parsePercent('—')).toBeNull();
+  });
+});
+
+describe('normalizeListings', () => {
+  it('skips listings without a name, a positive MRR or a startup link, with the reason', () => {
+    const { companies, skipped } = normalizeListings([
+      listing({ name: '  ' }),
+      listing({ name: 'No MRR', mrr: null }),
+      listing({ name: 'Zero', mrr: 0 }),
+      listing({ name: 'Refunds', mrr: parseMoney('-$250') }),
+      listing({ name: 'No link', link: '' }),
+      listing({ name: 'Kept' }),
+    ]);
+    expect(companies.map((c) => c.name)).toEqual(['Kept']);
+    expect(skipped.map((s) => s.reason)).toEqual(['no name', 'no MRR', 'zero MRR', 'negative MRR', 'no startup link']);
+  });
+
+  it('trims names, reads missing growth as 0 and sorts by MRR', () => {
+    const { companies } = normalizeListings([
+      listing({ name: ' Small \n Co ', link: 'https://trustmrr.com/startup/small', mrr: 10, mom_growth: null }),
+      listing({ name: 'Big', link: 'https://trustmrr.com/startup/big', mrr: 500 }),
+    ]);
+    expect(companies.map((c) => [c.name, c.mrr, c.mom_growth])).toEqual([
+      ['Big', 500, 0.1],
+      ['Small Co', 10, 0],
+    ]);
+  });
+
+  it('drops duplicates by slug and by name + MRR, keeping the largest', () => {
+    const { companies, duplicates } = normalizeListings([
+      listing({ name: 'Acme', mrr: 900 }),
+      listing({ name: 'Acme (old)', mrr: 1200 }),
+      listing({ name: 'Twin', link: 'https://trustmrr.com/startup/twin-1', mrr: 50 }),
+      listing({ name: 'Twin', link: 'https://trustmrr.com/startup/twin-2', mrr: 50 }),
+    ]);
+    expect(companies.map((c) => [c.name, c.mrr])).toEqual([
+      ['Acme (old)', 1200],
+      ['Twin', 50],
+    ]);
+    expect(duplicates).toBe(2);
+  });
+
+  it('keeps the details a source passes along', () => {
+    const { companies } = normalizeListings([listing({ details: { category: 'SaaS', country: 'US' } })]);
+    expect(companies[0]).toMatchObject({ category: 'SaaS', country: 'US' });
+  });
+});
@@ -0,0 +1,84 @@
+import type { CompanyRecord } from '../../lib/companies';
+import { slugFromLink } from '../../lib/links';
+import type { RawListing } from './types';
+
+export const TRUSTMRR_URL = 'https://trustmrr.com';
+
+/** Canonical TrustMRR URL of a startup; its last segment is the slug the site keys on. */
+export function startupLink(slug: string): string {
+  return `${TRUSTMRR_URL}/startup/${slug}`;
+}
+
+/** `$1,234.5` → 1234.5, `-$12` → -12; null when there is no number in it. */
+export function parseMoney(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.]/g, '');
+  if (!cleaned) return null;
+  const num = Number.parseFloat(cleaned);
+  if (Number.isNaN(num)) return null;
+  // A minus (or typographic minus) before the first digit, wherever the currency sign is
+  return /^[^0-9]*[-\u2212]/.test(value) ? -num : num;
+}
+
+/** `+4.5%` → 0.045, `-12%` → -0.12; null when there is no number in it. */
+export function parsePercent(value: string): number | null {
+  const cleaned = value.replace(/[\s,%]/g, '');
+  if (!cleaned) return null;
+  const num = Number.parseFloat(cleaned);
+  return Number.isNaN(num) ? null : num / 100;
+}
+
+export interface SkippedListing {
+  listing: RawListing;
+  reason: string;
+}
+
+export interface NormalizeResult {
+  companies: CompanyRecord[];
+  skipped: SkippedListing[];
+  /** Listings dropped as duplicates of one kept earlier. */
+  duplicates: number;
+}
+
+function normalizeListing(listing: RawListing): CompanyRecord | string {
+  const name = listing.name.replace(/\s+/g, ' ').trim();
+  if (!name) return 'no name';
+  if (listing.mrr === null || !Number.isFinite(listing.mrr)) return 'no MRR';
+  if (listing.mrr < 0) return 'negative MRR';
+  if (listing.mrr <= 0) return 'zero MRR';
+  if (!listing.link || !slugFromLink(listing.link)) return 'no startup link';
+  const growth = listing.mom_growth !== null && Number.isFinite(listing.mom_growth) ? listing.mom_growth : 0;
+  return { name, logo: listing.logo.trim(), link: listing.link, mrr: listing.mrr, mom_growth: growth, ...listing.details };
+}
+
+/**
+ * The rules every source shares: trimmed names, listings without a name, a
+ * positive MRR or a startup link skipped, missing growth read as 0, sorted
+ * by MRR (largest first), and duplicates dropped by slug and by name + MRR,
+ * keeping the first (largest) one.
+ */
+export function normalizeListings(listings: readonly RawListing[]): NormalizeResult {
+  const skipped: SkippedListing[] = [];
+  const valid: CompanyRecord[] = [];
+  for (const listing of listings) {
+    const result = normalizeListing(listing);
+    if (typeof result === 'string') {
+      skipped.push({ listing, reason: result });
+    } else {
+      valid.push(result);
+    }
+  }
+  valid.sort((a, b) => b.mrr - a.mrr);
+
+  const seenSlugs = new Set<string>();
+  const seenKeys = new Set<string>();
+  const companies = valid.filter((company) => {
+    const slug = slugFromLink(company.link);
+    const key = `${company.name}::${company.mrr}`;
+    if (seenSlugs.has(slug) || seenKeys.has(key)) return false;
+    seenSlugs.add(slug);
+    seenKeys.add(key);
+    return true;
+  });
+
+  return { companies, skipped, duplicates: valid.length - companies.length };
+}
@@ -0,0 +1,22 @@
+/**
+ * Runs `task` for every index below `count`, at most `concurrency` at a
+ * time, and returns the results in index order.
+ */
+export async function runPool<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>,
+): Promise<T[]> {
+  const results: T[] = new Array(count);
+  let next = 0;
+
+  async function worker() {
+    while (next < count) {
+      const index = next;
+      next += 1;
+      results[index] = await task(index);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, worker));
+  return results;
+}
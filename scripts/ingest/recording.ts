@@ -0,0 +1,84 @@
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+import type { PageFetcher, TrustMrrPage } from './sources/api';
+
+// A recording is a directory of raw API responses, one file per page
+// (page-1.json, page-2.json, …), as `--record` saved them.
+
+const PAGE_FILE = /^page-\d+\.json$/;
+
+function pageFile(dir: string, page: number): string {
+  return path.join(dir, `page-${page}.json`);
+}
+
+async function readPage(dir: string, page: number): Promise<TrustMrrPage | null> {
+  try {
+    return JSON.parse(await fs.readFile(pageFile(dir, page), 'utf8')) as TrustMrrPage;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/** Wraps a fetcher so every page it returns is also saved to `dir`, replacing any earlier recording there. */
+export async function recordingFetcher(fetchPage: PageFetcher, dir: string): Promise<PageFetcher> {
+  await fs.mkdir(dir, { recursive: true });
+  const stale = (await fs.readdir(dir)).filter((file) => PAGE_FILE.test(file));
+  await Promise.all(stale.map((file) => fs.rm(path.join(dir, file))));
+
+  return async (page, limit) => {
+    const data = await fetchPage(page, limit);
+    await fs.writeFile(pageFile(dir, page), `${JSON.stringify(data, null, 2)}\n`, 'utf8');
+    return data;
+  };
+}
+
+/** Answers page requests from a recording instead of the network. */
+export function replayFetcher(dir: string): PageFetcher {
+  return async (page) => {
+    const data = await readPage(dir, page);
+    if (!data) {
+      throw new Error(`the recording in ${dir} has no page ${page}`);
+    }
+    return data;
+  };
+}
+
+/**
+ * Serves a recording as a stand-in for the search API: a POST with
+ * `{ "page": n }` gets page-n.json back, and a missing page a 404.
+ * Point `--api-url` at it to exercise the real HTTP path offline.
+ */
+export function serveRecording(dir: string, port: number): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', async () => {
+      const reply = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      if (req.method !== 'POST') {
+        reply(405, { error: 'POST a search request' });
+        return;
+      }
+      try {
+        const { page = 1 } = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as { page?: number };
+        const data = await readPage(dir, page);
+        if (data) {
+          reply(200, data);
+        } else {
+          reply(404, { error: `no page ${page} in the recording` });
+        }
+      } catch (err) {
+        reply(400, { error: (err as Error).message });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server));
+  });
+}
@@ -0,0 +1,60 @@
+// Retries for the rate-limited TrustMRR API: 429 and 5xx responses are
+// tried again with exponential backoff, or after the server's Retry-After.
+
+const MAX_RETRY_AFTER_MS = 5 * 60_000; // a longer wait fails the request instead
+
+/** A non-OK HTTP response. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    /** From the Retry-After header, if the server sent one. */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries: number;
+  /** Wait before the first retry; doubles on every one after it. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (error: HttpError, attempt: number, delayMs: number) => void;
+}
+
+/** Retry-After is either a number of seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (header.trim() !== '' && Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+function isRetryable(error: unknown): error is HttpError {
+  return error instanceof HttpError && (error.status === 429 || error.status >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Runs `task`, retrying it on 429 and 5xx responses; anything else, or the last failure, is thrown. */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (err) {
+      if (!isRetryable(err) || attempt > options.retries) throw err;
+      if (err.retryAfterMs !== null && err.retryAfterMs > MAX_RETRY_AFTER_MS) throw err;
+      // Jitter keeps concurrent requests from retrying in lockstep
+      const backoff = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+      const delayMs = err.retryAfterMs ?? backoff * (0.5 + Math.random() / 2);
+      options.onRetry?.(err, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
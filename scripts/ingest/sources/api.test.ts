@@ -0,0 +1,189 @@
+import fs from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Checkpoint } from '../checkpoint';
+import { normalizeListings } from '../normalize';
+import { serveRecording } from '../recording';
+import { HttpError } from '../retry';
+import type { SourceOptions } from '../types';
+import { apiSource, fetchAllStartups, type PageFetcher, type TrustMrrPage } from './api';
+
+const RECORDING = path.join(__dirname, '../fixtures/api-recording-synthetic');
+
+let dir: string;
+let options: SourceOptions;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gridmrr-api-'));
+  options = {
+    input: null,
+    record: null,
+    apiUrl: null,
+    concurrency: null,
+    checkpoint: path.join(dir, 'checkpoint.json'),
+    allowPartial: false,
+  };
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('apiSource', () => {
+  it('replays a recording through pagination and the transform', async () => {
+    const listings = await apiSource.read({ ...options, input: RECORDING });
+    expect(listings).toHaveLength(8);
+
+    const { companies, skipped, duplicates } = normalizeListings(listings);
+    expect(companies.map((c) => c.name)).toEqual([
+      'TrimRx',
+      'Unnamed Company',
+      'Followr',
+      'Cometly',
+      'Editee.com',
+      '1Capture',
+    ]);
+    expect(skipped.map((s) => [s.listing.name, s.reason])).toEqual([['Side Project', 'zero MRR']]);
+    expect(duplicates).toBe(1);
+    expect(companies[0]).toEqual({
+      name: 'TrimRx',
+      logo: expect.stringMatching(/^https:\/\/files\.stripe\.com\//),
+      link: 'https://trustmrr.com/startup/trimrx',
+      mrr: 866861,
+      mom_growth: 0.37,
+      category: 'Health',
+      founder_handle: 'trimrx',
+      country: 'US',
+      arr: 10402332,
+      revenue_history: [
+        { month: '2024-05', mrr: 600000 },
+        { month: '2024-06', mrr: 632745 },
+      ],
+      for_sale: false,
+    });
+    expect(companies[2]).toMatchObject({ category: 'Marketing', for_sale: true, asking_price: 5000000 });
+    expect(companies[2]).not.toHaveProperty('country');
+  });
+
+  it('reads the same startups over HTTP from a served recording', async () => {
+    const server = await serveRecording(RECORDING, 0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const served = await apiSource.read({ ...options, apiUrl: `http://localhost:${port}/api/search` });
+      expect(served).toEqual(await apiSource.read({ ...options, input: RECORDING }));
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('records every page it fetches', async () => {
+    const record = path.join(dir, 'recording');
+    await apiSource.read({ ...options, input: RECORDING, record });
+    expect((await fs.readdir(record)).sort()).toEqual(['page-1.json', 'page-2.json']);
+    for (const file of ['page-1.json', 'page-2.json']) {
+      const recorded = JSON.parse(await fs.readFile(path.join(record, file), 'utf8')) as unknown;
+      expect(recorded).toEqual(JSON.parse(await fs.readFile(path.join(RECORDING, file), 'utf8')));
+    }
+  });
+
+  it('fails on a page missing from the recording', async () => {
+    const partial = path.join(dir, 'partial');
+    await fs.mkdir(partial);
+    await fs.copyFile(path.join(RECORDING, 'page-1.json'), path.join(partial, 'page-1.json'));
+    await expect(apiSource.read({ ...options, input: partial })).rejects.toThrow('page 2: the recording');
+  });
+});
+
+const PAGES = 3;
+const FAST_RETRY = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+function page(n: number): TrustMrrPage {
+  return {
+    startups: [1, 2].map((i) => ({ slug: `p${n}-${i}`, name: `Startup ${n}.${i}`, currentMrr: 1000 - n * 10 - i })),
+    pagination: { page: n, pages: PAGES, total: PAGES * 2 },
+  };
+}
+
+// A fetcher that throws `failures[page]` errors, in order, before answering that page
+function flakyFetcher(failures: Record<number, Error[]> = {}) {
+  const calls: number[] = [];
+  const fetchPage: PageFetcher = async (n) => {
+    calls.push(n);
+    const error = failures[n]?.shift();
+    if (error) throw error;
+    return page(n);
+  };
+  return { fetchPage, calls };
+}
+
+describe('fetchAllStartups', () => {
+  const run = (fetchPage: PageFetcher, checkpoint = true) =>
+    fetchAllStartups(fetchPage, {
+      concurrency: 2,
+      delayMs: 0,
+      retry: FAST_RETRY,
+      checkpoint: checkpoint ? { file: options.checkpoint!, apiUrl: 'http://api.test' } : null,
+    });
+
+  it('retries 429 and 5xx responses', async () => {
+    const { fetchPage, calls } = flakyFetcher({
+      2: [new HttpError(503, 'unavailable'), new HttpError(429, 'slow down')],
+    });
+    const result = await run(fetchPage, false);
+    expect(result.failed).toEqual([]);
+    expect(result.startups.map((s) => s.slug)).toEqual(['p1-1', 'p1-2', 'p2-1', 'p2-2', 'p3-1', 'p3-2']);
+    expect(calls.filter((n) => n === 2)).toHaveLength(3);
+  });
+
+  it('reports a page that keeps failing and resumes only that page from the checkpoint', async () => {
+    const first = flakyFetcher({ 3: [new HttpError(404, 'not found')] });
+    const partial = await run(first.fetchPage);
+    expect(partial.failed).toEqual([{ page: 3, error: 'not found' }]);
+    expect(partial.startups).toHaveLength(4);
+    expect(first.calls.filter((n) => n === 3)).toHaveLength(1); // a 404 is not retried
+
+    const saved = JSON.parse(await fs.readFile(options.checkpoint!, 'utf8')) as Checkpoint;
+    expect(Object.keys(saved.pages)).toEqual(['1', '2']);
+
+    const second = flakyFetcher();
+    const resumed = await run(second.fetchPage);
+    expect(second.calls).toEqual([3]);
+    expect(resumed.resumed).toBe(2);
+    expect(resumed.failed).toEqual([]);
+    expect(resumed.startups).toHaveLength(6);
+    await expect(fs.access(options.checkpoint!)).rejects.toThrow(); // cleared once complete
+  });
+
+
+  it('discards a stale checkpoint and fetches every page again', async () => {
+    const stale: Checkpoint = {
+      apiUrl: 'http://api.test',
+      limit: 100,
+      startedAt: new Date(Date.now() - 7 * 60 * 60 * 1000).toISOString(),
+      totalPages: PAGES,
+      total: PAGES * 2,
+      pages: { 1: page(1).startups, 2: page(2).startups },
+    };
+    await fs.writeFile(options.checkpoint!, JSON.stringify(stale));
+
+    const { fetchPage, calls } = flakyFetcher();
+    const result = await run(fetchPage);
+    expect(result.resumed).toBe(0);
+    expect([...calls].sort()).toEqual([1, 2, 3]);
+  });
+
+  it('keeps fetched pages when the checkpoint cannot be saved', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Every save writes a temporary file first, which a directory in its way makes fail
+    await fs.mkdir(`${options.checkpoint}.tmp`);
+
+    const result = await run(flakyFetcher().fetchPage);
+    expect(result.failed).toEqual([]);
+    expect(result.startups).toHaveLength(6);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not save the checkpoint'));
+  });
+});
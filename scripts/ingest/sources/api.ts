@@ -0,0 +1,263 @@
+import path from 'node:path';
+import type { CompanyDetails } from '../../../lib/companies';
+import { checkpointWriter, clearCheckpoint, loadCheckpoint, type Checkpoint } from '../checkpoint';
+import { startupLink } from '../normalize';
+import { runPool } from '../pool';
+import { recordingFetcher, replayFetcher } from '../recording';
+import { HttpError, parseRetryAfter, withRetry, type RetryOptions } from '../retry';
+import type { IngestSource, RawListing } from '../types';
+
+export const API_URL = 'https://trustmrr.com/api/search';
+const LIMIT = 100; // Fetch more per page for efficiency
+const PAGE_DELAY_MS = 100; // Small delay between a worker's pages to avoid rate limiting
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_CHECKPOINT = path.resolve(__dirname, '../../../data/.fetch-checkpoint.json');
+const RETRY: RetryOptions = { retries: 5, baseDelayMs: 1000, maxDelayMs: 30_000 };
+const MAX_LISTED = 10; // failed pages listed in the report
+
+/**
+ * The fields of a TrustMRR search result the pipeline reads. Only name,
+ * slug, icon, currentMrr and growth30d are always there; the rest are kept
+ * as company details when a response has them (check a `--record`ed run
+ * when the API changes).
+ */
+export interface TrustMrrStartup {
+  name?: string;
+  slug: string;
+  icon?: string | null;
+  currentMrr?: number | null;
+  /** Percent, e.g. 4.5 for +4.5%. */
+  growth30d?: number | null;
+  category?: string | null;
+  // Unconfirmed: the fields below are guessed names, so far only seen in the
+  // hand-written fixtures/api-recording-synthetic, not in a real recording
+  country?: string | null;
+  /** Founder's X handle, with or without the @. */
+  xHandle?: string | null;
+  arr?: number | null;
+  /** Monthly revenue; `date` is any ISO date in the month. */
+  revenueHistory?: { date: string; mrr: number }[] | null;
+  onSale?: boolean | null;
+  askingPrice?: number | null;
+}
+
+export interface TrustMrrPage {
+  startups: TrustMrrStartup[];
+  pagination?: { page?: number; pages?: number; total?: number };
+}
+
+/** Gets one page of search results: from the API, a mock server or a recording. */
+export type PageFetcher = (page: number, limit: number) => Promise<TrustMrrPage>;
+
+/**
+ * Fetches a single page of startups from the API
+ */
+export async function fetchStartupsPage(page = 1, limit = LIMIT, apiUrl = API_URL): Promise<TrustMrrPage> {
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      page,
+      limit,
+      sortBy: 'revenue',
+    }),
+  });
+
+  if (!response.ok) {
+    throw new HttpError(
+      response.status,
+      `API request failed: ${response.status} ${response.statusText}`,
+      parseRetryAfter(response.headers.get('retry-after')),
+    );
+  }
+
+  return (await response.json()) as TrustMrrPage;
+}
+
+export interface FetchAllOptions {
+  /** Pages fetched at the same time. */
+  concurrency?: number;
+  delayMs?: number;
+  /** How 429 and 5xx responses are retried; null to fail at once. */
+  retry?: RetryOptions | null;
+  /** Resume from and save progress to this checkpoint; the URL tells runs against different endpoints apart. */
+  checkpoint?: { file: string; apiUrl: string } | null;
+}
+
+export interface PageFailure {
+  page: number;
+  error: string;
+}
+
+export interface FetchAllResult {
+  /** In page order; the startups of failed pages are missing. */
+  startups: TrustMrrStartup[];
+  totalPages: number;
+  failed: PageFailure[];
+  /** Pages taken from the checkpoint instead of fetched. */
+  resumed: number;
+}
+
+/**
+ * Fetches all startups from the API by paginating through all pages.
+ * Pages after the first are fetched a few at a time; one that still fails
+ * after its retries is reported in `failed` rather than ending the run.
+ */
+export async function fetchAllStartups(
+  fetchPage: PageFetcher = fetchStartupsPage,
+  { concurrency = DEFAULT_CONCURRENCY, delayMs = PAGE_DELAY_MS, retry = RETRY, checkpoint = null }: FetchAllOptions = {},
+): Promise<FetchAllResult> {
+  const fetchWithRetry = (page: number) =>
+    retry
+      ? withRetry(() => fetchPage(page, LIMIT), {
+          ...retry,
+          onRetry: (err, attempt, wait) =>
+            // eslint-disable-next-line no-console
+            console.log(`  ↻ page ${page}: ${err.message}, retry ${attempt}/${retry.retries} in ${(wait / 1000).toFixed(1)}s`),
+        })
+      : fetchPage(page, LIMIT);
+
+  let state: Checkpoint | null = checkpoint ? await loadCheckpoint(checkpoint.file, checkpoint.apiUrl, LIMIT) : null;
+  const resumed = state ? Object.keys(state.pages).length : 0;
+  if (state) {
+    // eslint-disable-next-line no-console
+    console.log(`Resuming from ${checkpoint?.file}: ${resumed}/${state.totalPages} pages already fetched`);
+  }
+  const save = checkpoint ? checkpointWriter(checkpoint.file) : null;
+
+  if (!state) {
+    // Fetch first page to get pagination info; without it there is nothing to resume or report
+    const firstPage = await fetchWithRetry(1);
+    state = {
+      apiUrl: checkpoint?.apiUrl ?? '',
+      limit: LIMIT,
+      startedAt: new Date().toISOString(),
+      totalPages: firstPage.pagination?.pages || 1,
+      total: firstPage.pagination?.total || 0,
+      pages: { 1: firstPage.startups },
+    };
+    await save?.(state);
+  }
+  const run = state;
+
+  // eslint-disable-next-line no-console
+  console.log(`Found ${run.total} startups across ${run.totalPages} pages`);
+
+  const remaining = Array.from({ length: run.totalPages }, (_, i) => i + 1).filter((page) => !run.pages[page]);
+  const failed: PageFailure[] = [];
+
+  await runPool(remaining.length, concurrency, async (index) => {
+    const page = remaining[index];
+    // eslint-disable-next-line no-console
+    console.log(`Fetching page ${page}/${run.totalPages}...`);
+    try {
+      run.pages[page] = (await fetchWithRetry(page)).startups;
+      await save?.(run);
+    } catch (err) {
+      failed.push({ page, error: (err as Error).message });
+    }
+    if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+  });
+
+  if (checkpoint && failed.length === 0) {
+    await clearCheckpoint(checkpoint.file);
+  }
+  failed.sort((a, b) => a.page - b.page);
+  const startups = Object.keys(run.pages)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .flatMap((page) => run.pages[page]);
+  return { startups, totalPages: run.totalPages, failed, resumed };
+}
+
+/** What a run that lost pages got and did not get, and how to finish it. */
+function failureReport({ startups, totalPages, failed }: FetchAllResult, checkpointFile: string | null): string {
+  const lines = [
+    `fetched ${totalPages - failed.length} of ${totalPages} pages (${startups.length} startups); ${failed.length} failed:`,
+    ...failed.slice(0, MAX_LISTED).map(({ page, error }) => `  page ${page}: ${error}`),
+  ];
+  if (failed.length > MAX_LISTED) lines.push(`  … and ${failed.length - MAX_LISTED} more`);
+  if (checkpointFile) {
+    lines.push(`Progress is saved in ${path.relative(process.cwd(), checkpointFile)}; run again to fetch only the missing pages.`);
+  }
+  return lines.join('\n');
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function amount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+/** The optional fields a startup has, in snapshot form; missing or malformed ones are left out. */
+function startupDetails(startup: TrustMrrStartup): CompanyDetails {
+  const country = text(startup.country)?.toUpperCase();
+  const handle = text(startup.xHandle)?.replace(/^(https?:\/\/(www\.)?(x|twitter)\.com\/|@)/i, '');
+  const history = Array.isArray(startup.revenueHistory)
+    ? startup.revenueHistory.flatMap(({ date, mrr }) =>
+        typeof date === 'string' && /^\d{4}-\d{2}/.test(date) && amount(mrr) !== undefined
+          ? [{ month: date.slice(0, 7), mrr }]
+          : [],
+      )
+    : [];
+  history.sort((a, b) => a.month.localeCompare(b.month));
+
+  const details: CompanyDetails = {
+    category: text(startup.category),
+    founder_handle: handle || undefined,
+    country: country && /^[A-Z]{2}$/.test(country) ? country : undefined,
+    arr: amount(startup.arr),
+    revenue_history: history.length > 0 ? history : undefined,
+    for_sale: typeof startup.onSale === 'boolean' ? startup.onSale : undefined,
+    asking_price: startup.onSale ? amount(startup.askingPrice) : undefined,
+  };
+  // Absent rather than undefined, so they stay out of the JSON
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Transforms API startup object to a listing
+ */
+export function transformStartup(startup: TrustMrrStartup): RawListing {
+  return {
+    name: startup.name || '',
+    logo: startup.icon || '',
+    link: startup.slug ? startupLink(startup.slug) : '',
+    mrr: startup.currentMrr ?? null,
+    mom_growth: typeof startup.growth30d === 'number' ? startup.growth30d / 100 : null,
+    details: startupDetails(startup),
+  };
+}
+
+export const apiSource: IngestSource = {
+  name: 'api',
+  description: 'TrustMRR search API, all pages by revenue (--input: replay a --record directory)',
+  async read({ input, record, apiUrl, concurrency, checkpoint, allowPartial }) {
+    const url = apiUrl ?? API_URL;
+    let fetchPage: PageFetcher = input ? replayFetcher(input) : (page, limit) => fetchStartupsPage(page, limit, url);
+    if (record) fetchPage = await recordingFetcher(fetchPage, record);
+    // A recording answers instantly and never rate limits; a new recording needs every page fetched, not resumed
+    const checkpointFile = input || record ? null : checkpoint ?? DEFAULT_CHECKPOINT;
+
+    const result = await fetchAllStartups(fetchPage, {
+      concurrency: concurrency ?? DEFAULT_CONCURRENCY,
+      delayMs: input ? 0 : undefined,
+      retry: input ? null : undefined,
+      checkpoint: checkpointFile ? { file: checkpointFile, apiUrl: url } : null,
+    });
+
+    if (result.failed.length > 0) {
+      const report = failureReport(result, checkpointFile);
+      if (!allowPartial) {
+        throw new Error(`${report}\nNothing was written; pass --allow-partial to write the startups fetched so far.`);
+      }
+      // eslint-disable-next-line no-console
+      console.warn(`⚠ Partial run: ${report}`);
+    }
+    return result.startups.map(transformStartup);
+  },
+};
@@ -0,0 +1,35 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { normalizeListings } from '../normalize';
+import type { SourceOptions } from '../types';
+import { csvSource, extractListingsFromCsv } from './csv';
+
+const OPTIONS: SourceOptions = {
+  input: path.join(__dirname, '../fixtures/companies.csv'),
+  record: null,
+  apiUrl: null,
+  concurrency: null,
+  checkpoint: null,
+  allowPartial: false,
+};
+
+describe('csvSource', () => {
+  it('reads the fixture, quoted cells and slugs included', async () => {
+    const listings = await csvSource.read(OPTIONS);
+    expect(listings).toHaveLength(7);
+    expect(listings[0]).toMatchObject({ name: 'TrimRx', link: 'https://trustmrr.com/startup/trimrx', mrr: 866861, mom_growth: 0.37 });
+    expect(listings[5]).toEqual({ name: 'Acme, Inc.', logo: '', link: 'https://trustmrr.com/startup/acme', mrr: 1200, mom_growth: 0.05 });
+
+    const { companies, skipped } = normalizeListings(listings);
+    expect(companies).toHaveLength(6);
+    expect(skipped.map((s) => [s.listing.name, s.reason])).toEqual([['No Revenue', 'zero MRR']]);
+  });
+
+  it('keeps the sign of a negative MRR', () => {
+    expect(extractListingsFromCsv('name,mrr\nRefunds,"-$1,500"\n')[0].mrr).toBe(-1500);
+  });
+
+  it('needs name and mrr columns', () => {
+    expect(() => extractListingsFromCsv('title,revenue\nAcme,100\n')).toThrow('"name" and "mrr"');
+  });
+});
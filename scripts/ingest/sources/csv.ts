@@ -0,0 +1,98 @@
+import fs from 'node:fs/promises';
+import { parseMoney, parsePercent, startupLink } from '../normalize';
+import type { IngestSource, RawListing } from '../types';
+
+/** Splits CSV text into rows of fields, honouring quotes ("a, b" and "" for a quote). */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no listing
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/** `4.5%` is a percentage; a bare number is already a decimal, as in the snapshots. */
+function parseGrowth(value: string): number | null {
+  if (value.includes('%')) return parsePercent(value);
+  const num = Number.parseFloat(value.trim());
+  return Number.isNaN(num) ? null : num;
+}
+
+/** A full URL is kept; a bare slug becomes its TrustMRR startup URL. */
+function parseLink(value: string): string {
+  const link = value.trim();
+  if (!link || /^https?:\/\//i.test(link)) return link;
+  return startupLink(link.replace(/^\/?(startup\/)?/, ''));
+}
+
+/**
+ * Reads a CSV with a header row. `name` and `mrr` are required; `logo`,
+ * `link` (or `slug`) and `mom_growth` are optional. Exported for fixtures.
+ */
+export function extractListingsFromCsv(text: string): RawListing[] {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  if (!header) return [];
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex((cell) => names.includes(cell));
+
+  const nameAt = column('name');
+  const mrrAt = column('mrr');
+  if (nameAt < 0 || mrrAt < 0) {
+    throw new Error(`CSV header needs "name" and "mrr" columns (found: ${columns.join(', ')})`);
+  }
+  const logoAt = column('logo');
+  const linkAt = column('link', 'slug');
+  const growthAt = column('mom_growth', 'growth');
+  const cell = (row: string[], at: number) => (at < 0 ? '' : row[at] ?? '');
+
+  return rows.map((row) => ({
+    name: cell(row, nameAt),
+    logo: cell(row, logoAt).trim(),
+    link: parseLink(cell(row, linkAt)),
+    mrr: parseMoney(cell(row, mrrAt)),
+    mom_growth: parseGrowth(cell(row, growthAt)),
+  }));
+}
+
+export const csvSource: IngestSource = {
+  name: 'csv',
+  description: 'a CSV with name, mrr and optional logo, link (or slug) and mom_growth columns (--input, required)',
+  async read({ input }) {
+    if (!input) {
+      throw new Error('the csv source needs --input <file.csv>');
+    }
+    return extractListingsFromCsv(await fs.readFile(input, 'utf8'));
+  },
+};
@@ -0,0 +1,37 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { normalizeListings } from '../normalize';
+import type { SourceOptions } from '../types';
+import { htmlSource } from './html';
+
+const OPTIONS: SourceOptions = {
+  input: path.join(__dirname, '../fixtures/listing.html'),
+  record: null,
+  apiUrl: null,
+  concurrency: null,
+  checkpoint: null,
+  allowPartial: false,
+};
+
+describe('htmlSource', () => {
+  it('reads every row of the saved listing page', async () => {
+    const listings = await htmlSource.read(OPTIONS);
+    expect(listings).toHaveLength(100);
+    expect(listings[0]).toEqual({
+      name: 'TrimRx',
+      logo: expect.stringMatching(/^https:\/\/files\.stripe\.com\/links\//),
+      link: 'https://trustmrr.com/startup/trimrx',
+      mrr: 866861,
+      mom_growth: 0.37,
+    });
+    expect(listings[99]).toMatchObject({ name: 'Writingmate.ai', mrr: 8613, mom_growth: 0.24 });
+
+    const { companies, skipped } = normalizeListings(listings);
+    expect(companies).toHaveLength(100);
+    expect(skipped).toHaveLength(0);
+  });
+
+  it('needs an input file', async () => {
+    await expect(htmlSource.read({ ...OPTIONS, input: null })).rejects.toThrow('--input');
+  });
+});
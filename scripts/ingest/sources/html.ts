@@ -0,0 +1,70 @@
+import fs from 'node:fs/promises';
+import { parseMoney, parsePercent, TRUSTMRR_URL } from '../normalize';
+import type { IngestSource, RawListing } from '../types';
+
+// jsdom ships no types (and @types/jsdom is not a dependency); this is the part of its API used here
+const { JSDOM } = require('jsdom') as { JSDOM: new (html: string) => { window: Window } };
+
+/** Unwraps Next.js image optimizer URLs (`/_next/image?url=https%3A…&w=64`) and resolves relative ones. */
+function logoUrl(src: string): string {
+  let url = src;
+  const optimized = src.match(/\/_next\/image\?url=([^&]+)/);
+  if (optimized) {
+    try {
+      url = decodeURIComponent(optimized[1]);
+    } catch {
+      // Keep the optimizer URL; it still serves the image
+    }
+  }
+  try {
+    return new URL(url, TRUSTMRR_URL).toString();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Reads the rows of a saved TrustMRR listing table (the `<tbody>` of the
+ * page, or the whole page). Exported for fixtures.
+ */
+export function extractListingsFromHtml(html: string): RawListing[] {
+  // Collect each row's startup link from the raw markup first: the row wraps its cells
+  // in an <a>, which is invalid HTML that the parser restructures, losing the link
+  const hrefs = Array.from(html.matchAll(/<tr[^>]*data-slot="table-row"[^>]*>([\s\S]*?)<\/tr>/g), ([row]) => {
+    const href = row.match(/<a[^>]*class=["']contents["'][^>]*href=["']([^"']+)["']/)?.[1];
+    if (href?.startsWith('/startup/')) return href;
+    return row.match(/href=["'](\/startup\/[^"']+)["']/)?.[1] ?? '';
+  });
+
+  // The saved file may be just a <tbody> fragment, which only parses inside a table
+  const { document } = new JSDOM(`<html><body><table>${html}</table></body></html>`).window;
+  const rows = Array.from(document.querySelectorAll('tr[data-slot="table-row"]'));
+
+  return rows.map((row, i) => {
+    // The second cell holds the logo (an <img>, or a gradient when there is none) and the name
+    const companyCell = row.querySelectorAll('td')[1];
+    const img = companyCell?.querySelector('img');
+    const src = img?.getAttribute('src') || img?.getAttribute('srcset')?.split(' ')[0] || '';
+    // MRR and MoM are the first two monospaced cells
+    const mono = row.querySelectorAll('td.font-mono');
+
+    return {
+      name: companyCell?.querySelector('.font-medium')?.textContent ?? '',
+      logo: src ? logoUrl(src) : '',
+      link: hrefs[i] ? new URL(hrefs[i], TRUSTMRR_URL).toString() : '',
+      mrr: parseMoney(mono[0]?.textContent ?? ''),
+      mom_growth: parsePercent(mono[1]?.textContent ?? ''),
+    };
+  });
+}
+
+export const htmlSource: IngestSource = {
+  name: 'html',
+  description: 'a TrustMRR listing page saved as HTML (--input, required)',
+  async read({ input }) {
+    if (!input) {
+      throw new Error('the html source needs --input <saved listing page>');
+    }
+    return extractListingsFromHtml(await fs.readFile(input, 'utf8'));
+  },
+};
@@ -0,0 +1,10 @@
+import type { IngestSource } from '../types';
+import { apiSource } from './api';
+import { csvSource } from './csv';
+import { htmlSource } from './html';
+
+export const SOURCES: readonly IngestSource[] = [apiSource, htmlSource, csvSource];
+
+export function findSource(name: string): IngestSource | undefined {
+  return SOURCES.find((source) => source.name === name);
+}
@@ -0,0 +1,43 @@
+import type { CompanyDetails } from '../../lib/companies';
+
+/**
+ * One listing as a source read it, before normalization. Sources convert
+ * their own formats (API JSON, table cells, CSV columns) to numbers where
+ * they can and leave `null` where a value was missing or unreadable.
+ */
+export interface RawListing {
+  name: string;
+  /** Absolute logo URL, or '' when there is none. */
+  logo: string;
+  /** Absolute TrustMRR startup URL, or '' when the source had no link. */
+  link: string;
+  /** USD per month. */
+  mrr: number | null;
+  /** Decimal, like `mom_growth` in the snapshots (0.04 = +4%). */
+  mom_growth: number | null;
+  /** Optional extra fields, already cleaned; only the API has them. */
+  details?: CompanyDetails;
+}
+
+export interface SourceOptions {
+  /** What to read instead of the network: a saved page, a CSV or a recorded API run. */
+  input: string | null;
+  /** Directory to save the raw API responses in, for replaying with `input`. */
+  record: string | null;
+  /** Search endpoint to call instead of TrustMRR's, e.g. a local mock server. */
+  apiUrl: string | null;
+  /** API pages fetched at the same time; null for the default. */
+  concurrency: number | null;
+  /** API progress file to resume from; null for the default. */
+  checkpoint: string | null;
+  /** Return what an API run got even if some pages failed, instead of failing. */
+  allowPartial: boolean;
+}
+
+/** Where listings come from. Every source feeds the same normalize → dedupe → logos → write pipeline. */
+export interface IngestSource {
+  name: string;
+  /** One line for `--help`. */
+  description: string;
+  read: (options: SourceOptions) => Promise<RawListing[]>;
+}
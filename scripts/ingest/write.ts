@@ -0,0 +1,24 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { CompanyRecord } from '../../lib/companies';
+
+const DATA_DIR = path.resolve(__dirname, '../../data');
+
+/**
+ * Writes the companies to `out` if given; otherwise to data/companies.json
+ * and today's dated snapshot (re-running on the same day replaces it).
+ * Returns the files written.
+ */
+export async function writeCompaniesJson(companies: readonly CompanyRecord[], out: string | null): Promise<string[]> {
+  const json = `${JSON.stringify(companies, null, 2)}\n`;
+  const date = new Date().toISOString().slice(0, 10);
+  const files = out
+    ? [path.resolve(out)]
+    : [path.join(DATA_DIR, 'companies.json'), path.join(DATA_DIR, 'snapshots', `${date}.json`)];
+
+  for (const file of files) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, json, 'utf8');
+  }
+  return files;
+}
@@ -0,0 +1,111 @@
+/*
+  Validator for data/companies.json and every dated snapshot in data/snapshots/.
+  - Runs before `next build` (see the `prebuild` script)
+  - Fails on entries that would render a broken grid: empty names, missing or
+    negative MRR, NaN / implausible MoM growth, invalid logo or link URLs,
+    mirrored logos missing from public/logos/, duplicate slugs, malformed
+    optional details (category, country, ARR, revenue history, …)
+  - Prints a summary of warnings (placeholder names, missing logos, outliers)
+
+  Usage:
+    npm run validate
+    npm run validate -- path/to/snapshot.json [...more.json]
+*/
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { validateCompanies, type ValidationIssue } from '../lib/validation';
+
+const DATA_DIR = path.resolve(__dirname, '../data');
+const SNAPSHOT_DIR = path.join(DATA_DIR, 'snapshots');
+const PUBLIC_DIR = path.resolve(__dirname, '../public');
+const MAX_LISTED = 5; // entries listed per warning rule before summarizing
+
+function describe(issue: ValidationIssue): string {
+  const label = issue.name ? `"${issue.name}"` : '(unnamed)';
+  return issue.index >= 0 ? `#${issue.index} ${label}: ${issue.message}` : issue.message;
+}
+
+// Groups warnings by rule for a compact summary
+function summarizeWarnings(warnings: ValidationIssue[]) {
+  const byRule = new Map<string, ValidationIssue[]>();
+  for (const warning of warnings) {
+    const group = byRule.get(warning.rule) ?? [];
+    group.push(warning);
+    byRule.set(warning.rule, group);
+  }
+
+  for (const [rule, group] of byRule) {
+    // eslint-disable-next-line no-console
+    console.warn(`  ⚠ ${rule}: ${group.length}`);
+    for (const warning of group.slice(0, MAX_LISTED)) {
+      // eslint-disable-next-line no-console
+      console.warn(`      ${describe(warning)}`);
+    }
+    if (group.length > MAX_LISTED) {
+      // eslint-disable-next-line no-console
+      console.warn(`      … and ${group.length - MAX_LISTED} more`);
+    }
+  }
+}
+
+function defaultPaths(): string[] {
+  const snapshots = fs.existsSync(SNAPSHOT_DIR)
+    ? fs
+        .readdirSync(SNAPSHOT_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => path.join(SNAPSHOT_DIR, file))
+    : [];
+  return [path.join(DATA_DIR, 'companies.json'), ...snapshots];
+}
+
+// Validates one file and reports whether it is free of errors
+function validateFile(filePath: string): boolean {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error(`✗ Could not read ${filePath}:`, (err as Error).message);
+    return false;
+  }
+
+  const { errors, warnings } = validateCompanies(raw, {
+    assetExists: (publicPath) => fs.existsSync(path.join(PUBLIC_DIR, publicPath)),
+  });
+  const count = Array.isArray(raw) ? raw.length : 0;
+
+  // eslint-disable-next-line no-console
+  console.log(`Validated ${count} companies in ${path.relative(process.cwd(), filePath)}`);
+
+  if (warnings.length > 0) {
+    // eslint-disable-next-line no-console
+    console.warn(`\n${warnings.length} warnings:`);
+    summarizeWarnings(warnings);
+  }
+
+  if (errors.length > 0) {
+    // eslint-disable-next-line no-console
+    console.error(`\n✗ ${errors.length} errors:`);
+    for (const error of errors) {
+      // eslint-disable-next-line no-console
+      console.error(`  ${describe(error)}`);
+    }
+    return false;
+  }
+
+  // eslint-disable-next-line no-console
+  console.log('\n✓ Snapshot is valid\n');
+  return true;
+}
+
+function main() {
+  const filePaths = process.argv.length > 2 ? process.argv.slice(2).map((p) => path.resolve(p)) : defaultPaths();
+  const failed = filePaths.filter((filePath) => !validateFile(filePath));
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();